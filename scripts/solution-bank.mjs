@@ -0,0 +1,66 @@
+// Build or verify the precomputed solution bank (see src/core/solution-bank.ts).
+//
+//   node scripts/solution-bank.mjs build [--seed <seed>] [--candidates <n>] [--file <path>]
+//   node scripts/solution-bank.mjs verify [--file <path>]
+//
+// The core modules are TypeScript, so they are loaded through Vite's module runner.
+// The bank is written on one line, with its SHA-256 next to it in <file>.sha256
+// (sha256sum format), which verify checks along with every entry.
+import { createHash } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+import { basename } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { runnerImport } from "vite";
+
+const DEFAULT_FILE = fileURLToPath(new URL("../public/solution-bank.json", import.meta.url));
+const DEFAULT_SEED = "tetris-time";
+
+const { positionals, values } = parseArgs({
+  allowPositionals: true,
+  options: {
+    seed: { type: "string", default: DEFAULT_SEED },
+    candidates: { type: "string", default: "4" },
+    file: { type: "string", default: DEFAULT_FILE },
+  },
+});
+
+const hashFile = `${values.file}.sha256`;
+const sha256 = (contents) => createHash("sha256").update(contents).digest("hex");
+
+const { module: core } = await runnerImport(fileURLToPath(new URL("../src/core/index.ts", import.meta.url)));
+
+const command = positionals[0];
+if (command === "build") {
+  // Numeric seeds stay numbers, so --seed 42 matches { seed: 42 }
+  const seed = /^\d+$/.test(values.seed) ? Number(values.seed) : values.seed;
+  const started = Date.now();
+  const bank = core.buildSolutionBank({
+    seed,
+    candidates: Number(values.candidates),
+    onProgress(done, total) {
+      if (done % 60 === 0) process.stderr.write(`\r${done}/${total} times`);
+    },
+  });
+  process.stderr.write("\n");
+  const contents = JSON.stringify(bank) + "\n";
+  writeFileSync(values.file, contents);
+  writeFileSync(hashFile, `${sha256(contents)}  ${basename(values.file)}\n`);
+  console.log(`Wrote ${values.file} (seed ${JSON.stringify(seed)}) in ${Math.round((Date.now() - started) / 1000)}s`);
+} else if (command === "verify") {
+  const contents = readFileSync(values.file, "utf8");
+  const problems = core.verifySolutionBank(JSON.parse(contents));
+  const expectedHash = readFileSync(hashFile, "utf8").split(/\s/)[0];
+  if (sha256(contents) !== expectedHash) {
+    problems.push(`SHA-256 does not match ${hashFile} (rebuild the bank with bank:build)`);
+  }
+  for (const problem of problems) console.error(problem);
+  if (problems.length > 0) {
+    console.error(`${problems.length} problems in ${values.file}`);
+    process.exit(1);
+  }
+  console.log(`${values.file}: all ${core.SOLUTION_BANK_SIZE} times tile and sequence`);
+} else {
+  console.error("Usage: node scripts/solution-bank.mjs <build|verify> [--seed <seed>] [--candidates <n>] [--file <path>]");
+  process.exit(1);
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { analyzeMask } from "./analyze";
+import { DIGIT_PATTERNS } from "./digits";
+import { PENTOMINO_SET, createPieceSet, definePiece } from "./pieces";
+import type { DigitMask } from "./types";
+
+/** Parse "X" (lit) / "." (unlit) rows */
+function mask(...rows: string[]): DigitMask {
+  return rows.map((row) => row.split("").map((c) => c === "X"));
+}
+
+describe("analyzeMask", () => {
+  it("should accept every digit pattern", () => {
+    for (let digit = 0; digit <= 9; digit++) {
+      expect(analyzeMask(DIGIT_PATTERNS[digit]), `Digit ${digit}`).toEqual({ valid: true, issues: [] });
+    }
+  });
+
+  it("should report isolated cells", () => {
+    const result = analyzeMask(mask("XXXX", "X.XX", "XXXX", "XXXX"));
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toContainEqual({
+      kind: "isolated-cell",
+      message: "Isolated unlit cell at (1, 1)",
+      cells: [{ row: 1, col: 1 }],
+    });
+  });
+
+  it("should not report isolated cells that a one-cell piece covers", () => {
+    const withMonomino = createPieceSet("with-monomino", [definePiece("M", "X"), definePiece("O", "XX\nXX")]);
+    const isolated = mask("XXXX", "X.XX", "XXXX", "XXXX");
+
+    expect(analyzeMask(isolated, { pieceSet: withMonomino })).toEqual({ valid: true, issues: [] });
+    expect(analyzeMask(isolated, { pieceSet: withMonomino, forbiddenTypes: ["M"] }).issues).toContainEqual(
+      expect.objectContaining({ kind: "isolated-cell" })
+    );
+  });
+
+  it("should report regions whose size is not a multiple of 4", () => {
+    const result = analyzeMask(mask("XXX...", "XXX...", "......", "......"));
+
+    expect(result.valid).toBe(false);
+    const sizes = result.issues.filter((issue) => issue.kind === "region-size");
+    expect(sizes.map((issue) => issue.message)).toEqual([
+      "Lit region at (0, 0) has 6 cells (not a multiple of 4)",
+      "Unlit region at (0, 3) has 18 cells (not a multiple of 4)",
+    ]);
+    expect(sizes[0].cells).toHaveLength(6);
+  });
+
+  it("should report cells no piece fits into", () => {
+    // A 1-wide column of 4 unlit cells fits an I piece, but not when I is forbidden
+    const m = mask("X.XX", "X.XX", "X.XX", "X.XX");
+
+    expect(analyzeMask(m).issues.filter((issue) => issue.kind === "too-narrow")).toEqual([]);
+
+    const result = analyzeMask(m, { forbiddenTypes: ["I"] });
+    const narrow = result.issues.filter((issue) => issue.kind === "too-narrow");
+    expect(result.valid).toBe(false);
+    expect(narrow.map((issue) => issue.cells)).toContainEqual([
+      { row: 0, col: 1 },
+      { row: 1, col: 1 },
+      { row: 2, col: 1 },
+      { row: 3, col: 1 },
+    ]);
+  });
+
+  it("should flag 2x2 holes when O pieces are forbidden", () => {
+    const result = analyzeMask(DIGIT_PATTERNS[8], { forbiddenTypes: ["O"] });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((issue) => issue.kind)).toEqual(["too-narrow", "too-narrow"]);
+  });
+
+  it("should report checkerboard imbalance when T pieces are not allowed", () => {
+    // A T-shaped region covers 3 dark cells and 1 light cell, which only a T can balance
+    const tShape = mask("XXX.", ".X..", "....", "....");
+
+    expect(analyzeMask(tShape).valid).toBe(true);
+
+    const withoutT = analyzeMask(tShape, { forbiddenTypes: ["T"] });
+    const checkerboard = withoutT.issues.find((issue) => issue.kind === "checkerboard");
+    expect(withoutT.valid).toBe(false);
+    expect(checkerboard?.message).toBe(
+      "Lit region at (0, 0) has 3 dark and 1 light cells on a checkerboard, more imbalance than the allowed pieces can cover"
+    );
+    expect(checkerboard?.cells).toEqual(
+      expect.arrayContaining([
+        { row: 0, col: 0 },
+        { row: 0, col: 2 },
+        { row: 1, col: 1 },
+      ])
+    );
+  });
+
+  it("should check region sizes against the piece set", () => {
+    const result = analyzeMask(mask("XXXX", "XXXX"), { pieceSet: PENTOMINO_SET });
+
+    expect(result.issues.map((issue) => issue.message)).toContain("Lit region at (0, 0) has 8 cells (not a multiple of 5)");
+    expect(analyzeMask(mask("XXXXX", "XXXXX"), { pieceSet: PENTOMINO_SET }).valid).toBe(true);
+  });
+
+  it("should analyze numbered regions separately", () => {
+    // Lit cells split into two labels of 6 cells each; together they would be 12
+    const labelled = [
+      [2, 2, 2, 3, 3, 3],
+      [2, 2, 2, 3, 3, 3],
+    ];
+
+    expect(analyzeMask(labelled).issues.map((issue) => issue.message)).toEqual([
+      "Label 2 region at (0, 0) has 6 cells (not a multiple of 4)",
+      "Label 3 region at (0, 3) has 6 cells (not a multiple of 4)",
+    ]);
+    expect(analyzeMask([[2, 2, 2, 2], [3, 3, 3, 3]]).valid).toBe(true);
+  });
+
+  it("should not report balanced regions without T pieces", () => {
+    expect(analyzeMask(mask("XX..XX", "XX..XX"), { allowedTypes: ["I", "O"] }).valid).toBe(true);
+  });
+});
@@ -0,0 +1,168 @@
+import type { Cell, DigitMask, MaskAnalysis, MaskIssue, TileOptions } from "./types";
+import { Grid } from "./grid";
+import { TETROMINO_SET, getAbsoluteCells, resolveAllowedTypes } from "./tetrominoes";
+import { pieceCellUnit } from "./pieces";
+import { maskLabel } from "./digits";
+
+/** A connected group of cells sharing the same mask label */
+interface Region {
+  label: number;
+  cells: Cell[];
+}
+
+/** Split a mask into 4-connected same-label regions, in row-major order of their first cell */
+function findRegions(mask: DigitMask): Region[] {
+  const rows = mask.length;
+  const cols = rows > 0 ? mask[0].length : 0;
+  const visited = mask.map((row) => row.map(() => false));
+  const regions: Region[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (visited[row][col]) continue;
+
+      const label = maskLabel(mask[row][col]);
+      const cells: Cell[] = [];
+      const stack: Cell[] = [{ row, col }];
+      visited[row][col] = true;
+
+      while (stack.length > 0) {
+        const cell = stack.pop()!;
+        cells.push(cell);
+        for (const [dr, dc] of [
+          [-1, 0],
+          [1, 0],
+          [0, -1],
+          [0, 1],
+        ]) {
+          const r = cell.row + dr;
+          const c = cell.col + dc;
+          if (r < 0 || r >= rows || c < 0 || c >= cols) continue;
+          if (visited[r][c] || maskLabel(mask[r][c]) !== label) continue;
+          visited[r][c] = true;
+          stack.push({ row: r, col: c });
+        }
+      }
+
+      regions.push({ label, cells });
+    }
+  }
+
+  return regions;
+}
+
+/** Mark every cell that at least one allowed placement can cover */
+function findCoverableCells(mask: DigitMask, options?: TileOptions): boolean[][] {
+  const rows = mask.length;
+  const cols = rows > 0 ? mask[0].length : 0;
+  const grid = new Grid(rows, cols, mask);
+  const coverable = mask.map((row) => row.map(() => false));
+  const pieceSet = options?.pieceSet ?? TETROMINO_SET;
+
+  for (const type of resolveAllowedTypes(options)) {
+    const tetromino = pieceSet.pieces[type];
+    for (let rotationIndex = 0; rotationIndex < tetromino.rotations.length; rotationIndex++) {
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          const anchor = { row, col };
+          if (!grid.canPlace(tetromino, rotationIndex, anchor)) continue;
+          for (const cell of getAbsoluteCells(tetromino, rotationIndex, anchor)) {
+            coverable[cell.row][cell.col] = true;
+          }
+        }
+      }
+    }
+  }
+
+  return coverable;
+}
+
+/** "Lit region at (2, 3)" */
+function describeRegion(region: Region): string {
+  const { row, col } = region.cells[0];
+  const name = labelName(region.label);
+  return `${name[0].toUpperCase()}${name.slice(1)} region at (${row}, ${col})`;
+}
+
+/** "unlit", "lit" or "label 3" */
+function labelName(label: number): string {
+  return label === 0 ? "unlit" : label === 1 ? "lit" : `label ${label}`;
+}
+
+/**
+ * Explain why a mask cannot be tiled.
+ * Cells with different labels (lit / unlit / custom) are tiled separately,
+ * so every check runs per connected region:
+ * 1. Isolated cells (no neighbour with the same label), unless a one-cell piece is allowed
+ * 2. Region sizes that are not a multiple of the piece cell unit (4 for tetrominoes)
+ * 3. Cells too narrowly enclosed for any allowed piece to cover
+ * 4. Checkerboard colouring: every tetromino except T covers 2 dark + 2 light cells,
+ *    a T covers 3 + 1, so a region's imbalance must fit the pieces available
+ *
+ * Only pieceSet / allowedTypes / forbiddenTypes are read from the options.
+ */
+export function analyzeMask(mask: DigitMask, options?: TileOptions): MaskAnalysis {
+  const pieceSet = options?.pieceSet ?? TETROMINO_SET;
+  const types = resolveAllowedTypes(options);
+  const unit = pieceCellUnit(pieceSet, types);
+  const coverable = findCoverableCells(mask, options);
+  const issues: MaskIssue[] = [];
+  // A one-cell piece covers an isolated cell
+  const smallestPiece = Math.min(...types.map((type) => pieceSet.pieces[type].rotations[0].length));
+
+  // Largest checkerboard imbalance per covered cell any allowed piece achieves (T: 2 / 4)
+  const imbalancePerCell = Math.max(
+    0,
+    ...types.map((type) => {
+      const cells = pieceSet.pieces[type].rotations[0];
+      const dark = cells.filter((cell) => (cell.row + cell.col) % 2 === 0).length;
+      return Math.abs(2 * dark - cells.length) / cells.length;
+    })
+  );
+
+  for (const region of findRegions(mask)) {
+    const size = region.cells.length;
+
+    if (size === 1 && smallestPiece > 1) {
+      const { row, col } = region.cells[0];
+      issues.push({
+        kind: "isolated-cell",
+        message: `Isolated ${labelName(region.label)} cell at (${row}, ${col})`,
+        cells: region.cells,
+      });
+      continue;
+    }
+
+    if (unit > 0 && size % unit !== 0) {
+      issues.push({
+        kind: "region-size",
+        message: `${describeRegion(region)} has ${size} cells (not a multiple of ${unit})`,
+        cells: region.cells,
+      });
+    }
+
+    const uncovered = region.cells.filter((cell) => !coverable[cell.row][cell.col]);
+    if (uncovered.length > 0) {
+      issues.push({
+        kind: "too-narrow",
+        message: `${describeRegion(region)} has ${uncovered.length} cells that no allowed piece fits into`,
+        cells: uncovered,
+      });
+    }
+
+    const dark = region.cells.filter((cell) => (cell.row + cell.col) % 2 === 0);
+    const light = region.cells.filter((cell) => (cell.row + cell.col) % 2 === 1);
+    const imbalance = Math.abs(dark.length - light.length);
+    // Each T shifts the balance by 2; other tetrominoes keep it
+    const maxImbalance = Math.floor(size * imbalancePerCell);
+    if (imbalance > maxImbalance) {
+      issues.push({
+        kind: "checkerboard",
+        message: `${describeRegion(region)} has ${dark.length} dark and ${light.length} light cells on a checkerboard, more imbalance than the allowed pieces can cover`,
+        cells: dark.length > light.length ? dark : light,
+      });
+    }
+  }
+
+  return { valid: issues.length === 0, issues };
+}
@@ -2,7 +2,7 @@ import { describe, it, expect } from "vitest";
 import { tileTimeGrid, tileDigit } from "./solver";
 import { sequencePieces } from "./sequencer";
 import { estimateAnimationDurationMs } from "./animation";
-import { TETROMINOES } from "./tetrominoes";
+import { TETROMINO_SET } from "./tetrominoes";
 
 describe("estimateAnimationDurationMs", () => {
   it("returns 0 for unsuccessful sequences", () => {
@@ -91,7 +91,7 @@ describe("estimateAnimationDurationMs", () => {
     let actualBehaviorMs = 0;
     for (const seqPiece of seq.sequence) {
       const piece = seqPiece.piece;
-      const rotationCount = TETROMINOES[piece.type].rotations.length;
+      const rotationCount = TETROMINO_SET.pieces[piece.type].rotations.length;
       const targetRotation = ((piece.rotationIndex % rotationCount) + rotationCount) % rotationCount;
       const rotateSteps = rotationCount <= 1 ? 0 : targetRotation;
       const moveSteps = seqPiece.steps.filter((s) => s.action === "move").length;
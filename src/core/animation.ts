@@ -1,5 +1,4 @@
 import type { SequenceResult } from "./types";
-import { TETROMINOES } from "./tetrominoes";
 
 export interface AnimationEstimateConfig {
   fieldTopPaddingRows: number;
@@ -23,9 +22,8 @@ export function estimateAnimationDurationMs(seqResult: SequenceResult, config: A
 
   for (const seqPiece of seqResult.sequence) {
     const piece = seqPiece.piece;
-    const rotationCount = TETROMINOES[piece.type].rotations.length;
-    const targetRotation = ((piece.rotationIndex % rotationCount) + rotationCount) % rotationCount;
-    const rotateSteps = rotationCount <= 1 ? 0 : targetRotation;
+    // The sequencer emits one rotate step per clockwise turn from the spawn rotation
+    const rotateSteps = seqPiece.steps.filter((s) => s.action === "rotate").length;
     const moveSteps = seqPiece.steps.filter((s) => s.action === "move").length;
     const totalActions = rotateSteps + moveSteps;
 
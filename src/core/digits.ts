@@ -1,14 +1,17 @@
-import type { DigitMask } from './types';
+import type { DigitMask, MaskValue } from './types';
 
 /**
  * Digit patterns for 0-9.
  * Each is a 10 row × 6 column grid.
  * true = lit (part of digit), false = unlit (background)
  *
- * CRITICAL CONSTRAINTS:
+ * CRITICAL CONSTRAINTS (for the default tetromino piece set):
  * 1. Both lit and unlit counts must be divisible by 4
+ *    (by pieceCellUnit for other piece sets, e.g. 5 for pentominoes)
  * 2. All unlit cells must form CONNECTED regions that are tileable
  *    (no isolated single cells or untileable shapes)
+ *
+ * analyzeMask (analyze.ts) checks these for any mask.
  */
 
 // Helper to create a mask from a visual string representation
@@ -222,6 +225,13 @@ export function countLitCells(mask: DigitMask): number {
   return mask.flat().filter(Boolean).length;
 }
 
+/**
+ * Region label of a mask cell: false → 0 (unlit), true → 1 (lit), numbers as given.
+ */
+export function maskLabel(value: MaskValue): number {
+  return typeof value === 'number' ? value : value ? 1 : 0;
+}
+
 /**
  * Count unlit cells in a mask
  */
@@ -0,0 +1,204 @@
+import { describe, it, expect } from "vitest";
+import {
+  encodeTiling,
+  encodeTilingString,
+  decodeTiling,
+  encodeSequence,
+  encodeSequenceString,
+  decodeSequence,
+} from "./encoding";
+import { tileGrid, tileTimeGrid, retileTimeGrid, TIME_ROWS, TIME_COLS } from "./solver";
+import { sequencePieces, sequenceChangedPieces } from "./sequencer";
+import { PENTOMINO_SET, createPieceSet, definePiece } from "./pieces";
+import type { EncodedTiling, PlacedTetromino } from "./types";
+
+/** Pieces without their IDs, in a stable order */
+function shapes(pieces: PlacedTetromino[]) {
+  return pieces
+    .map(({ id: _id, ...piece }) => piece)
+    .sort((a, b) => a.anchor.row - b.anchor.row || a.anchor.col - b.anchor.col);
+}
+
+describe("encodeTiling / decodeTiling", () => {
+  const tile = tileTimeGrid(12, 34, { seed: 42 });
+
+  it("should round-trip a time grid through JSON", () => {
+    const encoded = JSON.parse(JSON.stringify(encodeTiling(tile)));
+    const decoded = decodeTiling(encoded);
+
+    expect(encoded.version).toBe(1);
+    expect(encoded.pieceSet).toBe("tetromino");
+    expect(encoded.pieces).toHaveLength(tile.pieces.length);
+    expect(decoded.success).toBe(true);
+    expect(shapes(decoded.pieces)).toEqual(shapes(tile.pieces));
+    expect(decoded.stats.typeCounts).toEqual(tile.stats.typeCounts);
+    expect(decoded.stats.seed).toBe(42);
+  });
+
+  it("should rebuild grid references and number pieces in encoded order", () => {
+    const decoded = decodeTiling(encodeTiling(tile));
+
+    expect(decoded.pieces.map((p) => p.id).slice(0, 3)).toEqual(["piece-1", "piece-2", "piece-3"]);
+    expect(decoded.grid).toHaveLength(TIME_ROWS);
+    for (const piece of decoded.pieces) {
+      for (const cell of piece.cells) {
+        expect(decoded.grid[cell.row][cell.col]).toBe(piece);
+      }
+    }
+  });
+
+  it("should round-trip through a short URL-safe string", () => {
+    const text = encodeTilingString(tile);
+
+    expect(text).toMatch(new RegExp(`^1\\.tetromino\\.${TIME_ROWS}x${TIME_COLS}\\.[A-Za-z0-9_-]+\\.s16$`));
+    expect(text.length).toBeLessThan(TIME_ROWS * TIME_COLS);
+    expect(shapes(decodeTiling(text).pieces)).toEqual(shapes(tile.pieces));
+    expect(encodeTilingString(decodeTiling(text))).toBe(text);
+  });
+
+  it("should keep custom region labels", () => {
+    const mask = [
+      [0, 0, 2, 2],
+      [0, 0, 2, 2],
+      [1, 1, 1, 1],
+    ];
+    const labelled = tileGrid(3, 4, mask, { seed: 1 });
+    const decoded = decodeTiling(encodeTilingString(labelled));
+
+    expect(decoded.pieces.map((p) => p.label).sort()).toEqual([0, 1, 2]);
+    expect(decoded.pieces.map((p) => p.isLit).sort()).toEqual([false, true, true]);
+  });
+
+  it("should find built-in piece sets by name and require custom ones", () => {
+    const pentominoes = tileGrid(5, 6, Array.from({ length: 5 }, () => Array(6).fill(true)), {
+      seed: 3,
+      pieceSet: PENTOMINO_SET,
+      strategy: "exact-cover",
+    });
+    const text = encodeTilingString(pentominoes, { pieceSet: PENTOMINO_SET });
+    expect(shapes(decodeTiling(text).pieces)).toEqual(shapes(pentominoes.pieces));
+
+    const dominoes = createPieceSet("domino", [definePiece("D", "XX")]);
+    const tiled = tileGrid(2, 2, [[true, true], [true, true]], { seed: 1, pieceSet: dominoes });
+    const encoded = encodeTiling(tiled, { pieceSet: dominoes });
+    expect(() => decodeTiling(encoded)).toThrow("Unknown piece set domino (pass it as options.pieceSet)");
+    expect(decodeTiling(encoded, { pieceSet: dominoes }).pieces).toHaveLength(2);
+  });
+
+  it("should refuse to encode a failed tiling", () => {
+    const failed = tileGrid(2, 3, [[true, true, true], [true, true, true]], { seed: 1 });
+    expect(() => encodeTiling(failed)).toThrow("Cannot encode a failed tiling");
+  });
+
+  describe("validation", () => {
+    const base: EncodedTiling = {
+      version: 1,
+      pieceSet: "tetromino",
+      rows: 2,
+      cols: 4,
+      pieces: [
+        ["O", 0, 0, 0, 1],
+        ["O", 0, 0, 2, 1],
+      ],
+    };
+
+    it("should accept a valid tiling", () => {
+      expect(decodeTiling(base).pieces).toHaveLength(2);
+    });
+
+    it("should reject overlapping, out-of-bounds and unknown pieces", () => {
+      expect(() => decodeTiling({ ...base, pieces: [["O", 0, 0, 0, 1], ["O", 0, 0, 1, 1]] })).toThrow(
+        "Invalid tiling: piece 1 (O) at (0, 1) overlaps another piece"
+      );
+      expect(() => decodeTiling({ ...base, pieces: [["O", 0, 0, 0, 1], ["O", 0, 0, 3, 1]] })).toThrow(
+        "Invalid tiling: piece 1 (O) at (0, 3) is out of bounds"
+      );
+      expect(() => decodeTiling({ ...base, pieces: [["Q", 0, 0, 0, 1]] })).toThrow(
+        "Invalid tiling: piece 0 has unknown type Q"
+      );
+      expect(() => decodeTiling({ ...base, pieces: [["O", 1, 0, 0, 1]] })).toThrow(
+        "Invalid tiling: piece 0 (O) has no rotation 1"
+      );
+    });
+
+    it("should reject anchors and seeds that are not integers", () => {
+      expect(() => decodeTiling({ ...base, pieces: [["O", 0, 0, 0, 1], ["O", 0, 0, 1.5, 1]] })).toThrow(
+        "Invalid tiling: piece 1 (O) has anchor (0, 1.5)"
+      );
+      const stringAnchor = [["O", 0, "0", 0, 1], ["O", 0, 0, 2, 1]] as unknown as EncodedTiling["pieces"];
+      expect(() => decodeTiling({ ...base, pieces: stringAnchor })).toThrow(
+        "Invalid tiling: piece 0 (O) has anchor (0, 0)"
+      );
+      expect(() => decodeTiling({ ...base, seed: 0.5 })).toThrow("Invalid tiling: seed 0.5");
+    });
+
+    it("should reject tilings that leave cells uncovered", () => {
+      expect(() => decodeTiling({ ...base, pieces: [["O", 0, 0, 0, 1]] })).toThrow(
+        "Invalid tiling: cell (0, 2) is not covered"
+      );
+    });
+
+    it("should reject other versions and piece sets", () => {
+      expect(() => decodeTiling({ ...base, version: 2 } as unknown as EncodedTiling)).toThrow(
+        "Unsupported encoding version 2"
+      );
+      expect(() => decodeTiling("2.tetromino.2x4.AQAB")).toThrow("Unsupported encoding version 2");
+      expect(() => decodeTiling(base, { pieceSet: PENTOMINO_SET })).toThrow(
+        "Tiling uses the tetromino set, not pentomino"
+      );
+    });
+
+    it("should reject malformed or tampered strings", () => {
+      const text = encodeTilingString(decodeTiling(base));
+
+      expect(() => decodeTiling(text.replace("2x4", "2x6"))).toThrow("Invalid tiling: cell (0, 4) is not covered");
+      expect(() => decodeTiling(text.replace("2x4", "2by4"))).toThrow("Invalid tiling: malformed string");
+      expect(() => decodeTiling(`${text}!`)).toThrow("Invalid tiling: not base64url");
+      expect(() => decodeTiling(`${text}.s`)).toThrow("Invalid tiling: malformed seed");
+      expect(() => decodeTiling(`${text}.s!x`)).toThrow("Invalid tiling: malformed seed !x");
+      expect(decodeTiling(`${text}.s-z`).stats.seed).toBe(-35);
+    });
+  });
+});
+
+describe("encodeSequence / decodeSequence", () => {
+  const tile = tileTimeGrid(12, 34, { seed: 42 });
+  const sequence = sequencePieces(tile);
+  const drop = (s: ReturnType<typeof sequencePieces>) =>
+    s.sequence.map(({ piece, order, dropColumn, steps }) => ({ cells: piece.cells, order, dropColumn, steps }));
+
+  it("should round-trip a sequence through JSON", () => {
+    const decoded = decodeSequence(JSON.parse(JSON.stringify(encodeSequence(sequence, tile))));
+
+    expect(drop(decoded.sequence)).toEqual(drop(sequence));
+    expect(decoded.sequence.rows).toBe(TIME_ROWS);
+    const first = decoded.sequence.sequence[0].piece;
+    expect(decoded.tile.pieces).toContain(first);
+  });
+
+  it("should round-trip a sequence through a string", () => {
+    const text = encodeSequenceString(sequence, tile);
+
+    expect(text).toMatch(/^[A-Za-z0-9._-]+$/);
+    expect(drop(decodeSequence(text).sequence)).toEqual(drop(sequence));
+    expect(() => decodeSequence(encodeTilingString(tile))).toThrow("Missing drop order");
+  });
+
+  it("should encode sequences of only the changed pieces", () => {
+    const next = retileTimeGrid(tile, 12, 35, { seed: 42 });
+    const changed = sequenceChangedPieces(next, tile);
+    const decoded = decodeSequence(encodeSequenceString(changed, next));
+
+    expect(decoded.tile.pieces).toHaveLength(next.pieces.length);
+    expect(drop(decoded.sequence)).toEqual(drop(changed));
+  });
+
+  it("should reject out-of-range and repeated indices", () => {
+    const encoded = encodeSequence(sequence, tile);
+
+    expect(() => decodeSequence({ ...encoded, order: [0, 0] })).toThrow("Invalid sequence: piece index 0");
+    expect(() => decodeSequence({ ...encoded, order: [tile.pieces.length] })).toThrow(
+      `Invalid sequence: piece index ${tile.pieces.length}`
+    );
+  });
+});
@@ -0,0 +1,327 @@
+import type {
+  EncodedPiece,
+  EncodedSequence,
+  EncodedTiling,
+  EncodingOptions,
+  PieceSet,
+  PieceType,
+  PlacedTetromino,
+  SequenceResult,
+  TileResult,
+} from "./types";
+import { Grid } from "./grid";
+import { TETROMINO_SET, getAbsoluteCells } from "./tetrominoes";
+import { TROMINO_SET, PENTOMINO_SET } from "./pieces";
+import { sequenceInOrder } from "./sequencer";
+
+/**
+ * Versioned encoding of tilings and sequences, so they can be stored, cached,
+ * posted or shared in a URL without the object graph of a TileResult.
+ *
+ * Version 1 has two forms:
+ * - JSON (EncodedTiling / EncodedSequence): one [type, rotation, row, col, label]
+ *   entry per piece, in row-major order of the piece's first cell.
+ * - String: "1.<piece set>.<rows>x<cols>.<pieces>", optionally followed by
+ *   ".s<seed in base 36>" and ".o<drop order>", using URL-safe characters only.
+ *   <pieces> is base64url of two varints per piece (type index * 4 + rotation,
+ *   label) in the same order; anchors follow from filling the first empty cell.
+ *
+ * Decoding checks that every piece exists in its set, stays in bounds, does not
+ * overlap another piece and that every cell is covered; anything else throws.
+ * Decoded pieces are numbered piece-1, piece-2, ... in encoded order.
+ */
+
+const VERSION = 1;
+
+/** Piece sets decoding finds by name without options */
+const BUILT_IN_SETS = [TETROMINO_SET, TROMINO_SET, PENTOMINO_SET];
+
+/** Rotations per type in the string form (definePiece derives at most 4) */
+const ROTATION_SLOTS = 4;
+
+function invalid(message: string): Error {
+  return new Error(`Invalid tiling: ${message}`);
+}
+
+function resolvePieceSet(name: string, options?: EncodingOptions): PieceSet {
+  if (options?.pieceSet) {
+    if (options.pieceSet.name !== name) {
+      throw new Error(`Tiling uses the ${name} set, not ${options.pieceSet.name}`);
+    }
+    return options.pieceSet;
+  }
+  const pieceSet = BUILT_IN_SETS.find((set) => set.name === name);
+  if (!pieceSet) {
+    throw new Error(`Unknown piece set ${name} (pass it as options.pieceSet)`);
+  }
+  return pieceSet;
+}
+
+/** Flat index of the row-major first cell of a piece */
+function firstCellIndex(piece: PlacedTetromino, cols: number): number {
+  return Math.min(...piece.cells.map((cell) => cell.row * cols + cell.col));
+}
+
+/** The pieces of a tiling in encoded order */
+function encodedOrder(result: TileResult): PlacedTetromino[] {
+  const cols = result.grid[0]?.length ?? 0;
+  return [...result.pieces].sort((a, b) => firstCellIndex(a, cols) - firstCellIndex(b, cols));
+}
+
+function writeVarint(bytes: number[], value: number): void {
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+}
+
+function readVarints(bytes: Uint8Array): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let scale = 1;
+  for (const byte of bytes) {
+    value += (byte & 0x7f) * scale;
+    if (byte & 0x80) {
+      scale *= 0x80;
+    } else {
+      values.push(value);
+      value = 0;
+      scale = 1;
+    }
+  }
+  if (scale !== 1) throw invalid("truncated number");
+  return values;
+}
+
+function toBase64Url(bytes: number[]): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) throw invalid("not base64url");
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/** Encode a successful tiling as JSON */
+export function encodeTiling(result: TileResult, options?: EncodingOptions): EncodedTiling {
+  if (!result.success) {
+    throw new Error("Cannot encode a failed tiling");
+  }
+  const seed = result.stats.seed;
+  return {
+    version: VERSION,
+    pieceSet: (options?.pieceSet ?? TETROMINO_SET).name,
+    rows: result.grid.length,
+    cols: result.grid[0]?.length ?? 0,
+    pieces: encodedOrder(result).map((p): EncodedPiece => [p.type, p.rotationIndex, p.anchor.row, p.anchor.col, p.label]),
+    ...(seed !== undefined ? { seed } : {}),
+  };
+}
+
+/** Encode a successful tiling as a URL-safe string (seeds that are not safe integers are left out) */
+export function encodeTilingString(result: TileResult, options?: EncodingOptions): string {
+  return tilingToString(encodeTiling(result, options), options?.pieceSet ?? TETROMINO_SET);
+}
+
+function tilingToString(encoded: EncodedTiling, pieceSet: PieceSet): string {
+  if (!/^[A-Za-z0-9_-]+$/.test(pieceSet.name)) {
+    throw new Error(`Piece set name ${pieceSet.name} cannot be used in the string form`);
+  }
+
+  const bytes: number[] = [];
+  for (const [type, rotation, , , label] of encoded.pieces) {
+    const typeIndex = pieceSet.types.indexOf(type);
+    if (typeIndex < 0) {
+      throw new Error(`Piece type ${type} is not in the ${pieceSet.name} set`);
+    }
+    if (rotation >= ROTATION_SLOTS) {
+      throw new Error(`Rotation ${rotation} of ${type} cannot be used in the string form`);
+    }
+    writeVarint(bytes, typeIndex * ROTATION_SLOTS + rotation);
+    writeVarint(bytes, label);
+  }
+
+  const fields = [String(VERSION), pieceSet.name, `${encoded.rows}x${encoded.cols}`, toBase64Url(bytes)];
+  if (encoded.seed !== undefined && Number.isSafeInteger(encoded.seed)) {
+    fields.push(`s${encoded.seed.toString(36)}`);
+  }
+  return fields.join(".");
+}
+
+/** Parse the string form back into JSON, plus the drop order of a sequence string */
+function parseString(text: string, options?: EncodingOptions): { tiling: EncodedTiling; order?: number[] } {
+  const [version, name, size, payload, ...extras] = text.split(".");
+  if (version !== String(VERSION)) {
+    throw new Error(`Unsupported encoding version ${version}`);
+  }
+  const pieceSet = resolvePieceSet(name ?? "", options);
+  const match = /^(\d+)x(\d+)$/.exec(size ?? "");
+  if (!match || payload === undefined) throw invalid(`malformed string ${text}`);
+  const rows = Number(match[1]);
+  const cols = Number(match[2]);
+
+  const values = readVarints(fromBase64Url(payload));
+  if (values.length % 2 !== 0) throw invalid("odd number of piece values");
+
+  // Each piece covers the first empty cell with its own row-major first cell
+  const grid = new Grid(rows, cols);
+  const pieces: EncodedPiece[] = [];
+  for (let i = 0; i < values.length; i += 2) {
+    const index = i / 2;
+    const type = pieceSet.types[Math.floor(values[i] / ROTATION_SLOTS)];
+    const rotation = values[i] % ROTATION_SLOTS;
+    const shape = type === undefined ? undefined : pieceSet.pieces[type].rotations[rotation];
+    if (!shape) throw invalid(`piece ${index} has an unknown type or rotation`);
+
+    const empty = grid.findFirstEmpty();
+    if (!empty) throw invalid("more pieces than cells");
+    const first = shape.reduce((best, cell) =>
+      cell.row < best.row || (cell.row === best.row && cell.col < best.col) ? cell : best
+    );
+    const anchor = { row: empty.row - first.row, col: empty.col - first.col };
+    if (!grid.canPlace(pieceSet.pieces[type], rotation, anchor)) {
+      throw invalid(`piece ${index} (${type}) does not fit at (${anchor.row}, ${anchor.col})`);
+    }
+    grid.place(pieceSet.pieces[type], rotation, anchor);
+    pieces.push([type, rotation, anchor.row, anchor.col, values[i + 1]]);
+  }
+
+  const tiling: EncodedTiling = { version: VERSION, pieceSet: pieceSet.name, rows, cols, pieces };
+  let order: number[] | undefined;
+  for (const extra of extras) {
+    if (extra.startsWith("s")) {
+      const seed = /^-?[0-9a-z]+$/.test(extra.slice(1)) ? parseInt(extra.slice(1), 36) : NaN;
+      if (!Number.isSafeInteger(seed)) throw invalid(`malformed seed ${extra.slice(1)}`);
+      tiling.seed = seed;
+    } else if (extra.startsWith("o")) {
+      order = readVarints(fromBase64Url(extra.slice(1)));
+    }
+  }
+  return { tiling, order };
+}
+
+/**
+ * Decode a tiling from its JSON or string form into a TileResult.
+ * Throws when the encoding is malformed or the pieces do not tile the grid exactly.
+ */
+export function decodeTiling(input: EncodedTiling | string, options?: EncodingOptions): TileResult {
+  const tiling = typeof input === "string" ? parseString(input, options).tiling : input;
+  return buildTile(tiling, options);
+}
+
+function buildTile(encoded: EncodedTiling, options?: EncodingOptions): TileResult {
+  if (encoded.version !== VERSION) {
+    throw new Error(`Unsupported encoding version ${encoded.version}`);
+  }
+  const pieceSet = resolvePieceSet(encoded.pieceSet, options);
+  const { rows, cols } = encoded;
+  if (!Number.isInteger(rows) || !Number.isInteger(cols) || rows <= 0 || cols <= 0) {
+    throw invalid(`size ${rows}x${cols}`);
+  }
+  if (encoded.seed !== undefined && !Number.isSafeInteger(encoded.seed)) {
+    throw invalid(`seed ${encoded.seed}`);
+  }
+
+  // Collect each cell's label while checking bounds and overlaps (-1 = uncovered)
+  const mask: number[][] = Array.from({ length: rows }, () => Array(cols).fill(-1));
+  encoded.pieces.forEach(([type, rotation, row, col, label], index) => {
+    if (!pieceSet.types.includes(type)) throw invalid(`piece ${index} has unknown type ${type}`);
+    const name = `piece ${index} (${type})`;
+    if (!Number.isInteger(rotation) || !pieceSet.pieces[type].rotations[rotation]) {
+      throw invalid(`${name} has no rotation ${rotation}`);
+    }
+    if (!Number.isInteger(row) || !Number.isInteger(col)) throw invalid(`${name} has anchor (${row}, ${col})`);
+    if (!Number.isInteger(label) || label < 0) throw invalid(`${name} has label ${label}`);
+
+    for (const cell of getAbsoluteCells(pieceSet.pieces[type], rotation, { row, col })) {
+      if (cell.row < 0 || cell.row >= rows || cell.col < 0 || cell.col >= cols) {
+        throw invalid(`${name} at (${row}, ${col}) is out of bounds`);
+      }
+      if (mask[cell.row][cell.col] !== -1) {
+        throw invalid(`${name} at (${row}, ${col}) overlaps another piece`);
+      }
+      mask[cell.row][cell.col] = label;
+    }
+  });
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (mask[row][col] === -1) throw invalid(`cell (${row}, ${col}) is not covered`);
+    }
+  }
+
+  const grid = new Grid(rows, cols, mask);
+  const typeCounts: Record<PieceType, number> = Object.fromEntries(pieceSet.types.map((type) => [type, 0]));
+  for (const [type, rotation, row, col] of encoded.pieces) {
+    grid.place(pieceSet.pieces[type], rotation, { row, col });
+    typeCounts[type]++;
+  }
+
+  return {
+    success: true,
+    pieces: grid.getPlacedPieces(),
+    grid: grid.getCells(),
+    stats: {
+      attempts: 0,
+      backtracks: 0,
+      duration: 0,
+      typeCounts,
+      retries: 0,
+      ...(encoded.seed !== undefined ? { seed: encoded.seed } : {}),
+    },
+  };
+}
+
+/** Encode a successful sequence as JSON, together with its tiling */
+export function encodeSequence(sequence: SequenceResult, tile: TileResult, options?: EncodingOptions): EncodedSequence {
+  if (!sequence.success) {
+    throw new Error("Cannot encode a failed sequence");
+  }
+  const indexById = new Map(encodedOrder(tile).map((piece, index) => [piece.id, index]));
+  const order = sequence.sequence.map(({ piece }) => {
+    const index = indexById.get(piece.id);
+    if (index === undefined) throw new Error(`Sequenced piece ${piece.id} is not part of the tiling`);
+    return index;
+  });
+  return { version: VERSION, tiling: encodeTiling(tile, options), order };
+}
+
+/** Encode a successful sequence and its tiling as a URL-safe string */
+export function encodeSequenceString(sequence: SequenceResult, tile: TileResult, options?: EncodingOptions): string {
+  const encoded = encodeSequence(sequence, tile, options);
+  const bytes: number[] = [];
+  for (const index of encoded.order) writeVarint(bytes, index);
+  return `${tilingToString(encoded.tiling, options?.pieceSet ?? TETROMINO_SET)}.o${toBase64Url(bytes)}`;
+}
+
+/**
+ * Decode a sequence from its JSON or string form. The tiling is validated as in
+ * decodeTiling; the steps are generated again from each piece.
+ */
+export function decodeSequence(
+  input: EncodedSequence | string,
+  options?: EncodingOptions
+): { tile: TileResult; sequence: SequenceResult } {
+  if (typeof input !== "string" && input.version !== VERSION) {
+    throw new Error(`Unsupported encoding version ${input.version}`);
+  }
+  const { tiling, order } =
+    typeof input === "string" ? parseString(input, options) : { tiling: input.tiling, order: input.order };
+  if (order === undefined) throw new Error("Missing drop order: this encodes a tiling, not a sequence");
+
+  const tile = buildTile(tiling, options);
+  const seen = new Set<number>();
+  for (const index of order) {
+    if (!Number.isInteger(index) || index < 0 || index >= tile.pieces.length || seen.has(index)) {
+      throw new Error(`Invalid sequence: piece index ${index}`);
+    }
+    seen.add(index);
+  }
+
+  return { tile, sequence: sequenceInOrder(order.map((index) => tile.pieces[index]), tiling.rows, tiling.cols) };
+}
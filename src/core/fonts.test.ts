@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BLOCK_FONT,
+  SEVEN_SEGMENT_FONT,
+  ROUNDED_FONT,
+  COMPACT_FONT,
+  defineFont,
+  registerFont,
+  getFont,
+  fontNames,
+  glyphMask,
+} from './fonts';
+import { GLYPH_PATTERNS } from './glyphs';
+import { DIGIT_ROWS, DIGIT_COLS } from './digits';
+import { analyzeMask } from './analyze';
+
+const FONTS = [BLOCK_FONT, SEVEN_SEGMENT_FONT, ROUNDED_FONT, COMPACT_FONT];
+
+describe('Fonts', () => {
+  it('should have the expected sizes', () => {
+    expect([BLOCK_FONT.rows, BLOCK_FONT.cols]).toEqual([DIGIT_ROWS, DIGIT_COLS]);
+    expect([SEVEN_SEGMENT_FONT.rows, SEVEN_SEGMENT_FONT.cols]).toEqual([8, 6]);
+    expect([ROUNDED_FONT.rows, ROUNDED_FONT.cols]).toEqual([12, 8]);
+    expect([COMPACT_FONT.rows, COMPACT_FONT.cols]).toEqual([8, 5]);
+  });
+
+  it('should pass analyzeMask for every digit of every font', () => {
+    for (const font of FONTS) {
+      for (let d = 0; d <= 9; d++) {
+        expect(analyzeMask(font.glyphs[d]), `${font.name} ${d}`).toEqual({ valid: true, issues: [] });
+      }
+    }
+  });
+
+  it('should tell digits apart within a font', () => {
+    for (const font of FONTS) {
+      const shapes = new Set(Array.from({ length: 10 }, (_, d) => JSON.stringify(font.glyphs[d])));
+      expect(shapes.size, font.name).toBe(10);
+    }
+  });
+
+  it('should use the glyph patterns for the block font', () => {
+    expect(BLOCK_FONT.glyphs).toBe(GLYPH_PATTERNS);
+  });
+});
+
+describe('defineFont', () => {
+  const digits = (rows: string[]) =>
+    Object.fromEntries(Array.from({ length: 10 }, (_, d) => [d, rows.map((row) => row.split('').map((c) => c === 'X'))]));
+
+  it('should take the size from the zero', () => {
+    const font = defineFont('tiny', digits(['XX', 'XX']));
+    expect(font).toMatchObject({ name: 'tiny', rows: 2, cols: 2 });
+  });
+
+  it('should throw for a missing digit', () => {
+    const glyphs = digits(['XX', 'XX']);
+    delete glyphs[7];
+    expect(() => defineFont('tiny', glyphs)).toThrow('Font tiny has no glyph for 7');
+  });
+
+  it('should throw for glyphs of another size', () => {
+    const glyphs = { ...digits(['XX', 'XX']), A: [[true, true]] };
+    expect(() => defineFont('tiny', glyphs)).toThrow('Glyph "A" of font tiny is not 2×2');
+  });
+});
+
+describe('Font registry', () => {
+  it('should list the built-in fonts first', () => {
+    expect(fontNames().slice(0, 4)).toEqual(['block', 'seven-segment', 'rounded', 'compact']);
+    expect(getFont('rounded')).toBe(ROUNDED_FONT);
+    expect(getFont('comic')).toBeUndefined();
+  });
+
+  it('should register new fonts under a free name only', () => {
+    const font = { ...COMPACT_FONT, name: 'compact-copy' };
+    registerFont(font);
+    expect(getFont('compact-copy')).toBe(font);
+    expect(() => registerFont(font)).toThrow('Font compact-copy is already registered');
+    expect(() => registerFont(SEVEN_SEGMENT_FONT)).toThrow('Font seven-segment is already registered');
+  });
+});
+
+describe('glyphMask', () => {
+  it('should find letters in either case', () => {
+    expect(glyphMask('a')).toBe(GLYPH_PATTERNS.A);
+    expect(glyphMask('Z')).toBe(GLYPH_PATTERNS.Z);
+    expect(glyphMask('!')).toBe(GLYPH_PATTERNS['!']);
+  });
+
+  it('should look glyphs up in the given font', () => {
+    expect(glyphMask('8', ROUNDED_FONT)).toBe(ROUNDED_FONT.glyphs[8]);
+  });
+
+  it('should throw for characters without a glyph', () => {
+    expect(() => glyphMask('~')).toThrow('No glyph for character "~"');
+    expect(() => glyphMask('é')).toThrow('No glyph for character "é"');
+    expect(() => glyphMask('A', COMPACT_FONT)).toThrow('No glyph for character "A" in font compact');
+  });
+});
@@ -0,0 +1,146 @@
+import type { DigitMask, Font } from './types';
+import { GLYPH_PATTERNS } from './glyphs';
+
+/**
+ * Fonts: sets of glyph masks that share one size.
+ * Every font has the digits '0'-'9'; the block font also has letters and
+ * symbols (see glyphs.ts). Like the digit patterns, every glyph keeps its lit
+ * and unlit regions tileable by tetrominoes (analyzeMask finds none wrong).
+ *
+ * Fonts are looked up by name in a registry, e.g. for the ?font= URL parameter.
+ */
+
+// Helper to create a mask from space-separated rows ('X' = lit)
+function parseRows(rows: string): DigitMask {
+  return rows.split(' ').map((row) => row.split('').map((c) => c === 'X'));
+}
+
+/**
+ * Define a font from its glyphs; the size is taken from the '0' glyph.
+ * Throws if a digit is missing or a glyph has another size.
+ */
+export function defineFont(name: string, glyphs: Record<string, DigitMask>): Font {
+  for (let digit = 0; digit <= 9; digit++) {
+    if (!glyphs[digit]) {
+      throw new Error(`Font ${name} has no glyph for ${digit}`);
+    }
+  }
+  const rows = glyphs['0'].length;
+  const cols = glyphs['0'][0].length;
+  for (const [char, mask] of Object.entries(glyphs)) {
+    if (mask.length !== rows || mask.some((row) => row.length !== cols)) {
+      throw new Error(`Glyph ${JSON.stringify(char)} of font ${name} is not ${rows}×${cols}`);
+    }
+  }
+  return { name, rows, cols, glyphs };
+}
+
+/** The default font: 10×6 digits, letters and symbols with 2-cell strokes */
+export const BLOCK_FONT: Font = defineFont('block', GLYPH_PATTERNS);
+
+/**
+ * 8×6 digits with 1-cell strokes. Segments stay apart where the cell counts
+ * allow it (e.g. the top of 2 and 3); elsewhere the corners are filled.
+ * The 6 is the 9 rotated 180°, so its middle bar sits a row lower.
+ */
+export const SEVEN_SEGMENT_FONT: Font = defineFont('seven-segment', {
+  0: parseRows('XXXXXX X....X X....X X....X X....X X....X X....X XXXXXX'),
+  1: parseRows('.....X .....X .....X .....X .....X .....X .....X .....X'),
+  2: parseRows('.XXXXX .....X .....X .XXXXX X..... X..... X..... XXXXX.'),
+  3: parseRows('.XXXXX .....X .....X .XXXXX .....X .....X .....X .XXXXX'),
+  4: parseRows('X....X X....X X....X XXXXXX .....X .....X .....X .....X'),
+  5: parseRows('XXXXX. X..... X..... XXXXX. .....X .....X .....X .XXXXX'),
+  6: parseRows('XXXXX. X..... X..... X..... XXXXXX X....X X....X XXXXXX'),
+  7: parseRows('XXXXXX .....X .....X .....X .....X .....X .....X ......'),
+  8: parseRows('XXXXXX X....X X....X XXXXXX X....X X....X X....X XXXXXX'),
+  9: parseRows('XXXXXX X....X X....X XXXXXX .....X .....X .....X .XXXXX'),
+});
+
+/**
+ * 12×8 block digits with rounded corners. Rounding cuts single cells, which
+ * would leave isolated unlit cells at the edge of a glyph, so glyphs have a
+ * 1-cell unlit margin that the cut corners join.
+ */
+export const ROUNDED_FONT: Font = defineFont('rounded', {
+  0: parseRows(
+    '........ ..XXXX.. .XXXXXX. .XX..XX. .XX..XX. .XX..XX. .XX..XX. .XXXXXX. .XXXXXX. .XXXXXX. ..XXXX.. ........'
+  ),
+  1: parseRows(
+    '........ .....XX. .....XX. .....XX. .....XX. .....XX. .....XX. .....XX. .....XX. .....XX. .....XX. ........'
+  ),
+  2: parseRows(
+    '........ ..XXXX.. ..XXXXX. .....XX. .....XX. ..XXXXX. .XXXXX.. .XX..... .XX..... .XXXXX.. ..XXXX.. ........'
+  ),
+  3: parseRows(
+    '........ ..XXXX.. ..XXXXX. .....XX. .....XX. ..XXXXX. ..XXXXX. .....XX. .....XX. ..XXXXX. ..XXXX.. ........'
+  ),
+  4: parseRows(
+    '........ ..X..X.. .XX..XX. .XX..XX. .XX..XX. .XXXXXX. ..XXXXX. .....XX. .....XX. .....XX. .....X.. ........'
+  ),
+  5: parseRows(
+    '........ ..XXXX.. .XXXXX.. .XX..... .XX..... .XXXXX.. ..XXXXX. .....XX. .....XX. ..XXXXX. ..XXXX.. ........'
+  ),
+  6: parseRows(
+    '........ ..XXXXX. .XXXXXX. .XX..... .XX..... .XXXXX.. .XXXXXX. .XX..XX. .XX..XX. .XXXXXX. ..XXXX.. ........'
+  ),
+  7: parseRows(
+    '........ ..XXXX.. ..XXXXX. .....XX. .....XX. .....XX. .....XX. .....XX. .....XX. .....XX. .....X.. ........'
+  ),
+  8: parseRows(
+    '........ ..XXXX.. .XXXXXX. .XX..XX. .XX..XX. .XXXXXX. .XXXXXX. .XX..XX. .XX..XX. .XXXXXX. ..XXXX.. ........'
+  ),
+  9: parseRows(
+    '........ ..XXXX.. .XXXXXX. .XX..XX. .XX..XX. .XXXXXX. ..XXXXX. .....XX. .....XX. .XXXXXX. .XXXXX.. ........'
+  ),
+});
+
+/**
+ * 8×5 digits with 1-cell strokes, for small displays. A plain zero has 22
+ * lit cells, so two inner corners are filled, which reads as a slashed zero.
+ */
+export const COMPACT_FONT: Font = defineFont('compact', {
+  0: parseRows('XXXXX XX..X X...X X...X X...X X...X X..XX XXXXX'),
+  1: parseRows('....X ....X ....X ....X ....X ....X ....X ....X'),
+  2: parseRows('XXXXX ....X ....X ....X XXXXX X.... X.... XXXXX'),
+  3: parseRows('XXXXX ....X ....X ....X XXXXX ....X ....X XXXXX'),
+  4: parseRows('X...X X...X X...X X...X XXXXX ....X ....X ....X'),
+  5: parseRows('XXXXX X.... X.... X.... XXXXX ....X ....X XXXXX'),
+  6: parseRows('XXXXX X.... X.... X.... XXXXX XXX.X X...X XXXXX'),
+  7: parseRows('XXXXX ....X ....X ....X ....X ....X ....X ....X'),
+  8: parseRows('XXXXX X...X X...X X...X XX.XX X...X X...X XXXXX'),
+  9: parseRows('XXXXX XX..X X...X X...X XXXXX ....X ....X XXXXX'),
+});
+
+const registry = new Map<string, Font>(
+  [BLOCK_FONT, SEVEN_SEGMENT_FONT, ROUNDED_FONT, COMPACT_FONT].map((font) => [font.name, font])
+);
+
+/** Add a font to the registry (throws if the name is taken) */
+export function registerFont(font: Font): void {
+  if (registry.has(font.name)) {
+    throw new Error(`Font ${font.name} is already registered`);
+  }
+  registry.set(font.name, font);
+}
+
+/** A registered font by name */
+export function getFont(name: string): Font | undefined {
+  return registry.get(name);
+}
+
+/** Names of the registered fonts, built-in fonts first */
+export function fontNames(): string[] {
+  return Array.from(registry.keys());
+}
+
+/**
+ * The glyph of a character in a font (default: the block font); letters are
+ * case-insensitive. Throws for characters the font has no glyph for.
+ */
+export function glyphMask(char: string, font: Font = BLOCK_FONT): DigitMask {
+  const mask = font.glyphs[char.toUpperCase()];
+  if (!mask) {
+    throw new Error(`No glyph for character ${JSON.stringify(char)}${font === BLOCK_FONT ? '' : ` in font ${font.name}`}`);
+  }
+  return mask;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { GLYPH_PATTERNS, GLYPH_ROWS, GLYPH_COLS, meridiemMask, colonMask, COLON_LABEL } from './glyphs';
+import { DIGIT_PATTERNS, countLitCells, countUnlitCells } from './digits';
+import { analyzeMask } from './analyze';
+
+describe('Glyph Patterns', () => {
+  it('should define A-Z, 0-9 and space', () => {
+    for (const char of 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 ') {
+      expect(GLYPH_PATTERNS, `Glyph ${char}`).toHaveProperty(char);
+    }
+  });
+
+  it('should use the digit patterns for digits', () => {
+    for (let d = 0; d <= 9; d++) {
+      expect(GLYPH_PATTERNS[String(d)]).toBe(DIGIT_PATTERNS[d]);
+    }
+  });
+
+  it('should have correct dimensions (10 rows × 6 cols) for each glyph', () => {
+    for (const [char, mask] of Object.entries(GLYPH_PATTERNS)) {
+      expect(mask, `Glyph ${char}`).toHaveLength(GLYPH_ROWS);
+      for (const row of mask) {
+        expect(row, `Glyph ${char}`).toHaveLength(GLYPH_COLS);
+      }
+    }
+  });
+
+  it('should have lit and unlit counts divisible by 4 for each glyph', () => {
+    for (const [char, mask] of Object.entries(GLYPH_PATTERNS)) {
+      expect(countLitCells(mask) % 4, `Glyph ${char} lit cells`).toBe(0);
+      expect(countUnlitCells(mask) % 4, `Glyph ${char} unlit cells`).toBe(0);
+    }
+  });
+
+  it('should pass analyzeMask for each glyph', () => {
+    for (const [char, mask] of Object.entries(GLYPH_PATTERNS)) {
+      expect(analyzeMask(mask), `Glyph ${char}`).toEqual({ valid: true, issues: [] });
+    }
+  });
+
+  it('should tell letters apart', () => {
+    const shapes = new Set(Object.values(GLYPH_PATTERNS).map((mask) => JSON.stringify(mask)));
+    // S and 5 share a shape
+    expect(shapes.size).toBe(Object.keys(GLYPH_PATTERNS).length - 1);
+  });
+});
+
+describe('meridiemMask', () => {
+  it('should pass analyzeMask at every font height', () => {
+    for (const meridiem of ['AM', 'PM'] as const) {
+      for (const rows of [8, 10, 12]) {
+        const mask = meridiemMask(meridiem, rows);
+        expect(mask, `${meridiem} ${rows}`).toHaveLength(rows);
+        expect(analyzeMask(mask), `${meridiem} ${rows}`).toEqual({ valid: true, issues: [] });
+      }
+    }
+  });
+
+  it('should stand on the bottom row', () => {
+    const mask = meridiemMask('PM', 12);
+    expect(mask.slice(0, 4).flat()).not.toContain(true);
+    expect(mask.slice(4)).toEqual(meridiemMask('PM', 8));
+  });
+
+  it('should tell AM and PM apart', () => {
+    expect(meridiemMask('AM', 8)).not.toEqual(meridiemMask('PM', 8));
+  });
+
+  it('should reject odd or too few rows', () => {
+    expect(() => meridiemMask('AM', 6)).toThrow('Invalid marker rows: 6. Must be an even number of at least 8.');
+    expect(() => meridiemMask('AM', 9)).toThrow('Invalid marker rows: 9. Must be an even number of at least 8.');
+  });
+});
+
+describe('colonMask', () => {
+  it('should pass analyzeMask for every even size', () => {
+    for (const rows of [8, 10, 12]) {
+      for (const cols of [4, 6]) {
+        expect(analyzeMask(colonMask(rows, cols)), `${rows}×${cols}`).toEqual({ valid: true, issues: [] });
+      }
+    }
+  });
+
+  it('should put two centred 2×2 dots in the gap', () => {
+    const dot = (row: number) => colonMask(10, 4)[row].map((value) => value === COLON_LABEL);
+
+    expect([0, 1, 4, 5, 8, 9].map(dot)).toEqual(Array(6).fill([false, false, false, false]));
+    expect([2, 3, 6, 7].map(dot)).toEqual(Array(4).fill([false, true, true, false]));
+  });
+
+  it('should reject sizes that are odd or too small', () => {
+    expect(() => colonMask(6, 4)).toThrow('Invalid colon size: 6×4. Must be even, at least 8 rows and 4 columns.');
+    expect(() => colonMask(10, 5)).toThrow('Invalid colon size: 10×5. Must be even, at least 8 rows and 4 columns.');
+  });
+});
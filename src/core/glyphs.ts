@@ -0,0 +1,130 @@
+import type { DigitMask, MaskValue, Meridiem } from './types';
+import { DIGIT_PATTERNS, DIGIT_ROWS, DIGIT_COLS } from './digits';
+
+/**
+ * Glyph patterns for text: A-Z, 0-9, space and common punctuation and symbols.
+ * Each is a 10 row × 6 column grid in the style of DIGIT_PATTERNS.
+ *
+ * Glyphs are drawn on a 5 × 3 grid of 2×2 blocks, so every lit and unlit
+ * region is a union of 2×2 squares: its size is a multiple of 4 and it can
+ * always be tiled (by O pieces at worst). This keeps every glyph tile-safe
+ * for tetrominoes without checking each region by hand.
+ */
+
+// Helper to create a mask from 5 space-separated rows of 3 blocks ('X' = lit), each block 2×2 cells
+function parseBlocks(rows: string): DigitMask {
+  return rows.split(' ').flatMap((row) => {
+    const cells = row.split('').flatMap((c) => [c === 'X', c === 'X']);
+    return [cells, [...cells]];
+  });
+}
+
+const LETTERS: Record<string, string> = {
+  A: 'XXX X.X XXX X.X X.X',
+  B: 'XX. X.X XX. X.X XX.',
+  C: 'XXX X.. X.. X.. XXX',
+  D: 'XX. X.X X.X X.X XX.',
+  E: 'XXX X.. XXX X.. XXX',
+  F: 'XXX X.. XXX X.. X..',
+  G: 'XXX X.. X.X X.X XXX',
+  H: 'X.X X.X XXX X.X X.X',
+  I: 'XXX .X. .X. .X. XXX',
+  J: '..X ..X ..X X.X XXX',
+  K: 'X.X X.X XX. X.X X.X',
+  L: 'X.. X.. X.. X.. XXX',
+  M: 'X.X XXX XXX X.X X.X',
+  // An open top-right corner: with the slot closed on three sides the backtracker often runs out of attempts
+  N: 'XX. X.X X.X X.X X.X',
+  O: 'XXX X.X X.X X.X XXX',
+  P: 'XXX X.X XXX X.. X..',
+  Q: 'XXX X.X X.X XXX ..X',
+  R: 'XXX X.X XX. X.X X.X',
+  S: 'XXX X.. XXX ..X XXX',
+  T: 'XXX .X. .X. .X. .X.',
+  U: 'X.X X.X X.X X.X XXX',
+  V: 'X.X X.X X.X X.X .X.',
+  W: 'X.X X.X XXX XXX X.X',
+  X: 'X.X X.X .X. X.X X.X',
+  Y: 'X.X X.X .X. .X. .X.',
+  Z: 'XXX ..X .X. X.. XXX',
+};
+
+const SYMBOLS: Record<string, string> = {
+  ' ': '... ... ... ... ...',
+  '!': '.X. .X. .X. ... .X.',
+  '?': 'XXX ..X .XX ... .X.',
+  '.': '... ... ... ... .X.',
+  ',': '... ... ... .X. X..',
+  ':': '... .X. ... .X. ...',
+  ';': '... .X. ... .X. X..',
+  "'": '.X. .X. ... ... ...',
+  '"': 'X.X X.X ... ... ...',
+  '-': '... ... XXX ... ...',
+  '_': '... ... ... ... XXX',
+  '+': '... .X. XXX .X. ...',
+  '=': '... XXX ... XXX ...',
+  '*': '... X.X .X. X.X ...',
+  '/': '..X ..X .X. X.. X..',
+  '%': 'X.X ..X .X. X.. X.X',
+  '(': '.X. X.. X.. X.. .X.',
+  ')': '.X. ..X ..X ..X .X.',
+  '<': '..X .X. X.. .X. ..X',
+  '>': 'X.. .X. ..X .X. X..',
+  '#': 'X.X XXX X.X XXX X.X',
+  '♥': 'X.X XXX XXX .X. ...',
+};
+
+/** All glyph patterns indexed by character (upper case letters, digits, symbols) */
+export const GLYPH_PATTERNS: Record<string, DigitMask> = {
+  ...Object.fromEntries(Object.entries(LETTERS).map(([char, rows]) => [char, parseBlocks(rows)])),
+  ...Object.fromEntries(Object.entries(DIGIT_PATTERNS).map(([digit, mask]) => [digit, mask])),
+  ...Object.fromEntries(Object.entries(SYMBOLS).map(([char, rows]) => [char, parseBlocks(rows)])),
+};
+
+/** Grid dimensions for glyphs (the same as digits) */
+export const GLYPH_ROWS = DIGIT_ROWS;
+export const GLYPH_COLS = DIGIT_COLS;
+
+// Small letters for the AM / PM marker: 4 rows of 3 blocks (8 × 6 cells)
+const MARKER_LETTERS: Record<string, string> = {
+  A: 'XXX X.X XXX X.X',
+  P: 'XXX X.X XXX X..',
+  M: 'X.X XXX XXX X.X',
+};
+
+/**
+ * The AM / PM marker for a time grid `rows` high: two small block letters, one
+ * block apart, on the bottom 8 rows (14 columns wide). Above them is unlit, so
+ * `rows` must be even for the marker to stay tile-safe.
+ */
+export function meridiemMask(meridiem: Meridiem, rows: number): DigitMask {
+  if (rows < 8 || rows % 2 !== 0) {
+    throw new Error(`Invalid marker rows: ${rows}. Must be an even number of at least 8.`);
+  }
+  const [first, second] = Array.from(meridiem, (letter) => parseBlocks(MARKER_LETTERS[letter]));
+  const letters = first.map((row, i) => [...row, false, false, ...second[i]]);
+  return [...Array.from({ length: rows - 8 }, () => Array(letters[0].length).fill(false)), ...letters];
+}
+
+/** Region label of the colon dots in a time grid (see colonMask) */
+export const COLON_LABEL = 2;
+
+/**
+ * A colon gap `rows` × `cols` with the colon tiled into it: two 2×2 dots with
+ * region label COLON_LABEL, centred and a quarter of the way in from the top
+ * and the bottom. The unlit cells around them stay tile-safe for even sizes
+ * of at least 8 rows and 4 columns.
+ */
+export function colonMask(rows: number, cols: number): DigitMask {
+  if (rows < 8 || rows % 2 !== 0 || cols < 4 || cols % 2 !== 0) {
+    throw new Error(`Invalid colon size: ${rows}×${cols}. Must be even, at least 8 rows and 4 columns.`);
+  }
+  const dotCol = cols / 2 - 1;
+  const dotRow = Math.floor((rows - 2) / 4);
+  const dotRows = [dotRow, dotRow + 1, rows - 2 - dotRow, rows - 1 - dotRow];
+  return Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: cols }, (_, col): MaskValue =>
+      dotRows.includes(row) && (col === dotCol || col === dotCol + 1) ? COLON_LABEL : false
+    )
+  );
+}
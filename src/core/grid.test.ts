@@ -94,6 +94,32 @@ describe('Grid', () => {
       expect(grid.canPlace(TETROMINOES.O, 0, { row: 2, col: 2 })).toBe(true);
     });
 
+    it('should return false when crossing numeric region labels', () => {
+      const mask = [
+        [2, 2, 3, 3],
+        [2, 2, 3, 3],
+        [0, 0, 1, 1],
+        [0, 0, 1, 1],
+      ];
+      const grid = new Grid(4, 4, mask);
+
+      expect(grid.canPlace(TETROMINOES.O, 0, { row: 0, col: 0 })).toBe(true);
+      expect(grid.canPlace(TETROMINOES.O, 0, { row: 0, col: 1 })).toBe(false);
+      expect(grid.canPlace(TETROMINOES.I, 1, { row: 0, col: 0 })).toBe(false);
+    });
+
+    it('should treat true / false like labels 1 / 0', () => {
+      const mask = [
+        [true, 1, false, 0],
+        [true, 1, false, 0],
+      ];
+      const grid = new Grid(2, 4, mask);
+
+      expect(grid.canPlace(TETROMINOES.O, 0, { row: 0, col: 0 })).toBe(true);
+      expect(grid.canPlace(TETROMINOES.O, 0, { row: 0, col: 2 })).toBe(true);
+      expect(grid.canPlace(TETROMINOES.O, 0, { row: 0, col: 1 })).toBe(false);
+    });
+
     it('should handle I-piece rotations', () => {
       const grid = new Grid(4, 4);
 
@@ -172,6 +198,29 @@ describe('Grid', () => {
       const unlitPiece = grid.place(TETROMINOES.O, 0, { row: 0, col: 2 });
       expect(unlitPiece.isLit).toBe(false);
     });
+
+    it('should record the region label of each piece', () => {
+      const mask = [
+        [0, 0, 2, 2, 5, 5],
+        [0, 0, 2, 2, 5, 5],
+      ];
+      const grid = new Grid(2, 6, mask);
+
+      const unlit = grid.place(TETROMINOES.O, 0, { row: 0, col: 0 });
+      const second = grid.place(TETROMINOES.O, 0, { row: 0, col: 2 });
+      const fifth = grid.place(TETROMINOES.O, 0, { row: 0, col: 4 });
+      expect([unlit.label, second.label, fifth.label]).toEqual([0, 2, 5]);
+      expect([unlit.isLit, second.isLit, fifth.isLit]).toEqual([false, true, true]);
+    });
+
+    it('should number piece IDs per grid', () => {
+      const first = new Grid(4, 4);
+      const second = new Grid(4, 4);
+
+      expect(first.place(TETROMINOES.O, 0, { row: 0, col: 0 }).id).toBe('piece-1');
+      expect(second.place(TETROMINOES.O, 0, { row: 0, col: 0 }).id).toBe('piece-1');
+      expect(first.place(TETROMINOES.O, 0, { row: 0, col: 2 }).id).toBe('piece-2');
+    });
   });
 
   describe('findFirstEmpty', () => {
@@ -196,6 +245,16 @@ describe('Grid', () => {
 
       expect(grid.findFirstEmpty()).toBeNull();
     });
+
+    it('should find cells freed before the last scan position', () => {
+      const grid = new Grid(4, 4);
+      const first = grid.place(TETROMINOES.O, 0, { row: 0, col: 0 });
+      grid.place(TETROMINOES.O, 0, { row: 0, col: 2 });
+      expect(grid.findFirstEmpty()).toEqual({ row: 2, col: 0 });
+
+      grid.remove(first.id);
+      expect(grid.findFirstEmpty()).toEqual({ row: 0, col: 0 });
+    });
   });
 
   describe('isFull', () => {
@@ -218,6 +277,15 @@ describe('Grid', () => {
       grid.place(TETROMINOES.O, 0, { row: 2, col: 2 });
       expect(grid.isFull()).toBe(true);
     });
+
+    it('should return false again after a piece is removed', () => {
+      const grid = new Grid(2, 2);
+      const piece = grid.place(TETROMINOES.O, 0, { row: 0, col: 0 });
+      expect(grid.isFull()).toBe(true);
+
+      grid.remove(piece.id);
+      expect(grid.isFull()).toBe(false);
+    });
   });
 
   describe('getPlacedPieces', () => {
@@ -1,94 +1,141 @@
-import type { Cell, PlacedTetromino, Tetromino, DigitMask } from './types';
+import type { Cell, PlacedTetromino, Polyomino, DigitMask } from './types';
 import { getAbsoluteCells } from './tetrominoes';
+import { maskLabel } from './digits';
 
-let pieceIdCounter = 0;
-
-/** Generate a unique piece ID */
-function generatePieceId(): string {
-  return `piece-${++pieceIdCounter}`;
-}
+/**
+ * Reset the piece ID counter (useful for testing).
+ * @deprecated Piece IDs are numbered per grid (see Grid), so there is no shared counter to reset.
+ */
+export function resetPieceIdCounter(): void {}
 
-/** Reset the piece ID counter (useful for testing) */
-export function resetPieceIdCounter(): void {
-  pieceIdCounter = 0;
+/**
+ * Precomputed offsets for one rotation of a piece on a specific grid width.
+ * Lets canPlace check a placement without allocating cell arrays.
+ */
+interface RotationOffsets {
+  /** Offsets into the flat cell arrays, relative to the anchor's index */
+  flat: Int32Array;
+  minRow: number;
+  maxRow: number;
+  minCol: number;
+  maxCol: number;
 }
 
 /**
- * Grid manages the state of a tetromino tiling grid.
+ * Grid manages the state of a polyomino (by default tetromino) tiling grid.
  * It tracks which cells are filled and enforces placement constraints.
+ *
+ * Cells are stored row-major in flat typed arrays (index = row * cols + col)
+ * so the solver's hot path (canPlace / findFirstEmpty / isFull) stays allocation-free.
  */
 export class Grid {
   readonly rows: number;
   readonly cols: number;
-  private cells: (PlacedTetromino | null)[][];
-  private mask: DigitMask;
+  /** Piece covering each cell, or null */
+  private owners: (PlacedTetromino | null)[];
+  /** 1 where a cell is covered */
+  private occupied: Uint8Array;
+  /** Region label of each cell (0 = unlit, 1 = lit, 2+ = custom regions) */
+  private mask: Int32Array;
   private placedPieces: Map<string, PlacedTetromino>;
+  private filledCount = 0;
+  /** Every cell before this index is filled (findFirstEmpty resumes from here) */
+  private scanStart = 0;
+  private offsetCache = new Map<Polyomino, RotationOffsets[]>();
+  /**
+   * Piece IDs are numbered per grid, so solves that interleave
+   * (e.g. two async solvers) still produce deterministic IDs.
+   */
+  private pieceIdCounter = 0;
 
   constructor(rows: number, cols: number, mask?: DigitMask) {
     this.rows = rows;
     this.cols = cols;
-    this.cells = Array.from({ length: rows }, () => Array(cols).fill(null));
+    this.owners = Array(rows * cols).fill(null);
+    this.occupied = new Uint8Array(rows * cols);
     this.placedPieces = new Map();
 
     // Default mask: all cells are "lit" (uniform grid)
-    this.mask = mask ?? Array.from({ length: rows }, () => Array(cols).fill(true));
+    this.mask = new Int32Array(rows * cols);
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        this.mask[row * cols + col] = mask ? maskLabel(mask[row][col]) : 1;
+      }
+    }
+  }
+
+  /** Get (and cache) the flat offsets for every rotation of a piece */
+  private getOffsets(tetromino: Polyomino): RotationOffsets[] {
+    let offsets = this.offsetCache.get(tetromino);
+    if (!offsets) {
+      offsets = tetromino.rotations.map((rotation) => ({
+        flat: Int32Array.from(rotation, (cell) => cell.row * this.cols + cell.col),
+        minRow: Math.min(...rotation.map((cell) => cell.row)),
+        maxRow: Math.max(...rotation.map((cell) => cell.row)),
+        minCol: Math.min(...rotation.map((cell) => cell.col)),
+        maxCol: Math.max(...rotation.map((cell) => cell.col)),
+      }));
+      this.offsetCache.set(tetromino, offsets);
+    }
+    return offsets;
   }
 
   /**
-   * Check if a tetromino can be placed at the given anchor position.
+   * Check if a piece can be placed at the given anchor position.
    * Validates:
    * 1. All cells within bounds
    * 2. No overlap with existing pieces
-   * 3. All cells have the same mask value (all lit or all unlit)
+   * 3. All cells share one mask label (e.g. all lit or all unlit)
    */
-  canPlace(tetromino: Tetromino, rotationIndex: number, anchor: Cell): boolean {
-    const cells = getAbsoluteCells(tetromino, rotationIndex, anchor);
+  canPlace(tetromino: Polyomino, rotationIndex: number, anchor: Cell): boolean {
+    const offsets = this.getOffsets(tetromino)[rotationIndex];
 
-    // Check bounds
-    for (const cell of cells) {
-      if (cell.row < 0 || cell.row >= this.rows) return false;
-      if (cell.col < 0 || cell.col >= this.cols) return false;
-    }
+    // Check bounds (the bounding box covers every cell)
+    if (anchor.row + offsets.minRow < 0 || anchor.row + offsets.maxRow >= this.rows) return false;
+    if (anchor.col + offsets.minCol < 0 || anchor.col + offsets.maxCol >= this.cols) return false;
 
-    // Check no overlap
-    for (const cell of cells) {
-      if (this.cells[cell.row][cell.col] !== null) return false;
-    }
+    const base = anchor.row * this.cols + anchor.col;
+    const flat = offsets.flat;
 
-    // Check mask constraint: all cells must have the same mask value
-    const firstMaskValue = this.mask[cells[0].row][cells[0].col];
-    for (const cell of cells) {
-      if (this.mask[cell.row][cell.col] !== firstMaskValue) return false;
+    // Check no overlap, and that all cells have the same mask label
+    const firstMaskValue = this.mask[base + flat[0]];
+    for (let i = 0; i < flat.length; i++) {
+      const index = base + flat[i];
+      if (this.occupied[index] || this.mask[index] !== firstMaskValue) return false;
     }
 
     return true;
   }
 
   /**
-   * Place a tetromino at the given anchor position.
+   * Place a piece at the given anchor position.
    * Returns the placed piece. Throws if placement is invalid.
    */
-  place(tetromino: Tetromino, rotationIndex: number, anchor: Cell): PlacedTetromino {
+  place(tetromino: Polyomino, rotationIndex: number, anchor: Cell): PlacedTetromino {
     if (!this.canPlace(tetromino, rotationIndex, anchor)) {
       throw new Error(`Cannot place ${tetromino.type} at (${anchor.row}, ${anchor.col})`);
     }
 
     const cells = getAbsoluteCells(tetromino, rotationIndex, anchor);
-    const isLit = this.mask[cells[0].row][cells[0].col];
+    const label = this.mask[cells[0].row * this.cols + cells[0].col];
 
     const piece: PlacedTetromino = {
-      id: generatePieceId(),
+      id: `piece-${++this.pieceIdCounter}`,
       type: tetromino.type,
       rotationIndex,
       anchor,
       cells,
-      isLit,
+      isLit: label !== 0,
+      label,
     };
 
     // Mark cells as occupied
     for (const cell of cells) {
-      this.cells[cell.row][cell.col] = piece;
+      const index = cell.row * this.cols + cell.col;
+      this.occupied[index] = 1;
+      this.owners[index] = piece;
     }
+    this.filledCount += cells.length;
 
     this.placedPieces.set(piece.id, piece);
     return piece;
@@ -105,8 +152,12 @@ export class Grid {
 
     // Clear cells
     for (const cell of piece.cells) {
-      this.cells[cell.row][cell.col] = null;
+      const index = cell.row * this.cols + cell.col;
+      this.occupied[index] = 0;
+      this.owners[index] = null;
+      if (index < this.scanStart) this.scanStart = index;
     }
+    this.filledCount -= piece.cells.length;
 
     this.placedPieces.delete(pieceId);
   }
@@ -116,21 +167,19 @@ export class Grid {
    * Returns null if the grid is full.
    */
   findFirstEmpty(): Cell | null {
-    for (let row = 0; row < this.rows; row++) {
-      for (let col = 0; col < this.cols; col++) {
-        if (this.cells[row][col] === null) {
-          return { row, col };
-        }
-      }
+    const size = this.occupied.length;
+    while (this.scanStart < size && this.occupied[this.scanStart]) {
+      this.scanStart++;
     }
-    return null;
+    if (this.scanStart === size) return null;
+    return { row: Math.floor(this.scanStart / this.cols), col: this.scanStart % this.cols };
   }
 
   /**
    * Check if the grid is completely filled.
    */
   isFull(): boolean {
-    return this.findFirstEmpty() === null;
+    return this.filledCount === this.occupied.length;
   }
 
   /**
@@ -144,7 +193,7 @@ export class Grid {
    * Get the current grid state (cell references).
    */
   getCells(): (PlacedTetromino | null)[][] {
-    return this.cells.map((row) => [...row]);
+    return Array.from({ length: this.rows }, (_, row) => this.owners.slice(row * this.cols, (row + 1) * this.cols));
   }
 
 }
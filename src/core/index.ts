@@ -3,24 +3,77 @@
 // Core types
 export type {
   TetrominoType,
+  PieceType,
   Cell,
+  Polyomino,
   Tetromino,
+  PieceSet,
   PlacedTetromino,
   TileStats,
   TileResult,
   TileOptions,
+  PieceMixOptions,
+  SolverStrategy,
+  TimeGridOptions,
+  TimeLayoutOptions,
+  Meridiem,
+  TextOptions,
+  Font,
+  LayoutItem,
+  LayoutOptions,
+  LayoutRegion,
+  GlyphLayout,
+  TileProgress,
+  AsyncTileOptions,
+  EnumerateOptions,
+  CountTilingsOptions,
+  MaskIssueKind,
+  MaskIssue,
+  MaskAnalysis,
+  Random,
+  RandomFactory,
   DigitMask,
+  MaskValue,
   MoveDirection,
   PlacementStep,
   SequencedPiece,
   SequenceResult,
+  EncodedPiece,
+  EncodedTiling,
+  EncodedSequence,
+  EncodingOptions,
+  SolutionBank,
+  SolutionBankOptions,
+  SolutionBankLookup,
 } from "./types";
 
 // Tetromino definitions
-export { TETROMINOES, TETROMINO_TYPES, getAbsoluteCells } from "./tetrominoes";
+export { TETROMINOES, TETROMINO_TYPES, TETROMINO_SET, getAbsoluteCells } from "./tetrominoes";
+
+// Piece sets
+export { definePiece, createPieceSet, pieceCellUnit, TROMINO_SET, PENTOMINO_SET } from "./pieces";
 
 // Digit patterns
-export { DIGIT_PATTERNS, DIGIT_ROWS, DIGIT_COLS, countLitCells, countUnlitCells } from "./digits";
+export { DIGIT_PATTERNS, DIGIT_ROWS, DIGIT_COLS, countLitCells, countUnlitCells, maskLabel } from "./digits";
+
+// Glyphs for text
+export { GLYPH_PATTERNS, GLYPH_ROWS, GLYPH_COLS, meridiemMask, colonMask, COLON_LABEL } from "./glyphs";
+
+// Fonts
+export {
+  BLOCK_FONT,
+  SEVEN_SEGMENT_FONT,
+  ROUNDED_FONT,
+  COMPACT_FONT,
+  defineFont,
+  registerFont,
+  getFont,
+  fontNames,
+  glyphMask,
+} from "./fonts";
+
+// Layouts
+export { layoutGlyphs } from "./layout";
 
 // Solver API
 export {
@@ -28,14 +81,79 @@ export {
   tileTime,
   tileGrid,
   tileTimeGrid,
+  tileGridAsync,
+  tileTimeGridAsync,
+  retileTimeGrid,
+  retileTimeGridAsync,
+  tileText,
+  tileTextAsync,
+  timeGridMask,
+  timeGridSize,
+  timeLayout,
+  textLayout,
+  countTilings,
+  enumerateTilings,
   TIME_ROWS,
   TIME_COLS,
   TIME_DIGIT_GAP_COLS,
   TIME_COLON_GAP_COLS,
 } from "./solver";
 
+// Random numbers and seed derivation
+export {
+  Mulberry32,
+  mulberry32,
+  shuffle,
+  hashSeed,
+  resolveSeed,
+  regionSeed,
+  retrySeed,
+  type SeedRegion,
+} from "./random";
+
+// Mask diagnostics
+export { analyzeMask } from "./analyze";
+
 // Sequencer API
-export { sequencePieces } from "./sequencer";
+export { sequencePieces, sequenceChangedPieces } from "./sequencer";
+
+// Encoding (versioned JSON / URL-safe string forms)
+export {
+  encodeTiling,
+  encodeTilingString,
+  decodeTiling,
+  encodeSequence,
+  encodeSequenceString,
+  decodeSequence,
+} from "./encoding";
+
+// Solution bank (precomputed clock times)
+export {
+  buildSolutionBank,
+  buildSolutionBankEntry,
+  loadSolutionBank,
+  verifySolutionBank,
+  solutionBankSeed,
+  SOLUTION_BANK_SIZE,
+} from "./solution-bank";
+
+// Worker protocol
+export {
+  attachSolverWorker,
+  SolverClient,
+  serializeTileResult,
+  deserializeTileResult,
+  serializeSequenceResult,
+  deserializeSequenceResult,
+  type SolverPort,
+  type SolverRequest,
+  type SolverResponse,
+  type WorkerSolveOptions,
+  type WorkerTextOptions,
+  type SerializedTileResult,
+  type SerializedSequenceResult,
+  type SerializedSequencedPiece,
+} from "./worker-protocol";
 
 // Animation utilities
 export { estimateAnimationDurationMs, type AnimationEstimateConfig } from "./animation";
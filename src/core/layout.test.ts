@@ -0,0 +1,227 @@
+import { describe, it, expect } from "vitest";
+import { layoutGlyphs } from "./layout";
+import { timeLayout, textLayout, timeGridMask, TIME_ROWS, TIME_COLS, TIME_DIGIT_GAP_COLS, TIME_COLON_GAP_COLS } from "./solver";
+import { DIGIT_PATTERNS, DIGIT_ROWS, DIGIT_COLS } from "./digits";
+import { colonMask, meridiemMask } from "./glyphs";
+import { COMPACT_FONT, glyphMask } from "./fonts";
+import type { DigitMask } from "./types";
+
+const L: DigitMask = [
+  [true, false],
+  [true, true],
+];
+const DOT: DigitMask = [[false], [true]];
+
+describe("layoutGlyphs", () => {
+  it("should place glyphs and separators left to right", () => {
+    const layout = layoutGlyphs([
+      { kind: "glyph", mask: L },
+      { kind: "separator", cols: 1 },
+      { kind: "glyph", mask: L },
+      { kind: "separator", cols: 1, mask: DOT },
+    ]);
+
+    expect(layout.rows).toBe(2);
+    expect(layout.cols).toBe(6);
+    expect(layout.mask).toEqual([
+      [true, false, false, true, false, false],
+      [true, true, false, true, true, true],
+    ]);
+    expect(layout.regions.map(({ kind, index, colOffset, cols }) => ({ kind, index, colOffset, cols }))).toEqual([
+      { kind: "glyph", index: 0, colOffset: 0, cols: 2 },
+      { kind: "separator", index: 0, colOffset: 2, cols: 1 },
+      { kind: "glyph", index: 1, colOffset: 3, cols: 2 },
+      { kind: "separator", index: 1, colOffset: 5, cols: 1 },
+    ]);
+  });
+
+  it("should put an unlit padding strip above the glyphs", () => {
+    const layout = layoutGlyphs([{ kind: "glyph", mask: L }], { paddingRows: 2 });
+
+    expect(layout.rows).toBe(4);
+    expect(layout.mask.slice(0, 2)).toEqual([
+      [false, false],
+      [false, false],
+    ]);
+    expect(layout.regions[0]).toMatchObject({ kind: "padding", rowOffset: 0, rows: 2, cols: 2 });
+    expect(layout.regions[1]).toMatchObject({ kind: "glyph", rowOffset: 2, colOffset: 0 });
+  });
+
+  it("should split the padding over the glyphs and separators, joining narrow ones to the next", () => {
+    const wide = [[true, true, true, true]];
+    const layout = layoutGlyphs(
+      [
+        { kind: "glyph", mask: wide },
+        { kind: "separator", cols: 2 },
+        { kind: "glyph", mask: wide },
+        { kind: "separator", cols: 4 },
+        { kind: "glyph", mask: wide },
+        { kind: "separator", cols: 1 },
+      ],
+      { paddingRows: 2 }
+    );
+
+    expect(
+      layout.regions.filter((r) => r.kind === "padding").map(({ index, colOffset, cols }) => ({ index, colOffset, cols }))
+    ).toEqual([
+      { index: 0, colOffset: 0, cols: 4 },
+      { index: 1, colOffset: 4, cols: 6 },
+      { index: 2, colOffset: 10, cols: 4 },
+      { index: 3, colOffset: 14, cols: 5 },
+    ]);
+  });
+
+  it("should leave out empty separators but keep counting them", () => {
+    const layout = layoutGlyphs([
+      { kind: "glyph", mask: L },
+      { kind: "separator", cols: 0 },
+      { kind: "glyph", mask: L },
+      { kind: "separator", cols: 2 },
+      { kind: "glyph", mask: L },
+    ]);
+
+    expect(layout.cols).toBe(8);
+    expect(layout.regions.filter((r) => r.kind === "separator").map((r) => r.index)).toEqual([1]);
+  });
+
+  it("should reject invalid layouts", () => {
+    expect(() => layoutGlyphs([{ kind: "separator", cols: 2 }])).toThrow("Layout must have at least one glyph");
+    expect(() => layoutGlyphs([{ kind: "glyph", mask: L }], { paddingRows: -1 })).toThrow(
+      "Invalid paddingRows: -1. Must be a non-negative integer."
+    );
+    expect(() =>
+      layoutGlyphs([
+        { kind: "glyph", mask: L },
+        { kind: "separator", cols: 1.5 },
+      ])
+    ).toThrow("Invalid separator width: 1.5. Must be a non-negative integer.");
+    expect(() =>
+      layoutGlyphs([
+        { kind: "glyph", mask: L },
+        { kind: "glyph", mask: DIGIT_PATTERNS[0] },
+      ])
+    ).toThrow(`Layout item 1 is not 2×${DIGIT_COLS}`);
+    expect(() =>
+      layoutGlyphs([
+        { kind: "glyph", mask: L },
+        { kind: "separator", cols: 2, mask: DOT },
+      ])
+    ).toThrow("Layout item 1 is not 2×2");
+  });
+});
+
+describe("timeLayout", () => {
+  it("should lay out HH:MM below the top strip", () => {
+    const layout = timeLayout(12, 34);
+
+    expect(layout.rows).toBe(TIME_ROWS);
+    expect(layout.cols).toBe(TIME_COLS);
+    expect(layout.mask).toEqual(timeGridMask(12, 34));
+    expect(layout.regions.map((r) => r.kind)).toEqual([
+      "padding",
+      "padding",
+      "padding",
+      "padding",
+      "padding",
+      "glyph",
+      "separator",
+      "glyph",
+      "separator",
+      "glyph",
+      "separator",
+      "glyph",
+    ]);
+    expect(layout.regions.filter((r) => r.kind === "glyph").map((r) => r.mask)).toEqual(
+      [1, 2, 3, 4].map((d) => DIGIT_PATTERNS[d])
+    );
+  });
+
+  it("should put the colon gap (id 'colon') between HH and MM", () => {
+    const colons = timeLayout(0, 0).regions.filter((r) => r.id === "colon");
+
+    expect(colons).toHaveLength(1);
+    const [colon] = colons;
+
+    expect(colon).toMatchObject({
+      rowOffset: TIME_ROWS - DIGIT_ROWS,
+      colOffset: DIGIT_COLS * 2 + TIME_DIGIT_GAP_COLS,
+      rows: DIGIT_ROWS,
+      cols: TIME_COLON_GAP_COLS,
+    });
+  });
+
+  it("should add SS after a second colon gap", () => {
+    const separators = timeLayout(12, 34, { seconds: 56 }).regions.filter((r) => r.kind === "separator");
+
+    expect(separators.map((r) => r.cols)).toEqual([
+      TIME_DIGIT_GAP_COLS,
+      TIME_COLON_GAP_COLS,
+      TIME_DIGIT_GAP_COLS,
+      TIME_COLON_GAP_COLS,
+      TIME_DIGIT_GAP_COLS,
+    ]);
+    expect(separators[3].colOffset).toBe(TIME_COLS);
+    expect(separators.filter((r) => r.id === "colon")).toEqual([separators[1], separators[3]]);
+  });
+
+  it("should tile the colon into the colon gaps when asked", () => {
+    const colons = timeLayout(12, 34, { seconds: 56, colon: true }).regions.filter((r) => r.id === "colon");
+
+    expect(colons).toHaveLength(2);
+    for (const colon of colons) {
+      expect(colon.mask).toEqual(colonMask(DIGIT_ROWS, TIME_COLON_GAP_COLS));
+    }
+    expect(timeLayout(12, 34, { colon: true }).cols).toBe(TIME_COLS);
+  });
+
+  it("should add the AM / PM marker after the minutes", () => {
+    const layout = timeLayout(12, 34, { meridiem: "PM" });
+    const marker = layout.regions[layout.regions.length - 1];
+
+    expect(marker).toMatchObject({ kind: "glyph", id: "meridiem", colOffset: TIME_COLS + TIME_DIGIT_GAP_COLS });
+    expect(marker.mask).toEqual(meridiemMask("PM", DIGIT_ROWS));
+    expect(layout.cols).toBe(marker.colOffset + marker.cols);
+  });
+
+  it("should leave out the leading zero of one-digit hours when asked", () => {
+    const layout = timeLayout(9, 45, { meridiem: "AM", leadingZero: false });
+    const digits = layout.regions.filter((r) => r.kind === "glyph" && r.id === undefined);
+
+    expect(digits.map((r) => r.mask)).toEqual([9, 4, 5].map((d) => DIGIT_PATTERNS[d]));
+    expect(layout.cols).toBe(timeLayout(10, 45, { meridiem: "AM" }).cols - DIGIT_COLS - TIME_DIGIT_GAP_COLS);
+    expect(timeLayout(10, 45, { leadingZero: false }).cols).toBe(TIME_COLS);
+    expect(timeLayout(9, 45).cols).toBe(TIME_COLS);
+  });
+
+  it("should keep the width even for odd-width fonts", () => {
+    const layout = timeLayout(9, 45, { font: COMPACT_FONT, leadingZero: false });
+
+    expect(layout.cols % 2).toBe(0);
+    expect(layout.regions[layout.regions.length - 1]).toMatchObject({ kind: "separator", cols: 1 });
+  });
+
+  it("should validate the time", () => {
+    expect(() => timeLayout(24, 0)).toThrow("Invalid hours: 24. Must be an integer 0-23.");
+    expect(() => timeLayout(12, 0, { seconds: -1 })).toThrow("Invalid seconds: -1. Must be an integer 0-59.");
+    expect(timeLayout(99, 59, { extendedHours: true }).cols).toBe(TIME_COLS);
+    expect(() => timeLayout(0, 0, { meridiem: "AM" })).toThrow("Invalid hours: 0. Must be an integer 1-12.");
+    expect(() => timeLayout(13, 0, { meridiem: "PM" })).toThrow("Invalid hours: 13. Must be an integer 1-12.");
+  });
+});
+
+describe("textLayout", () => {
+  it("should lay out glyphs letterGapCols apart without a top strip", () => {
+    const layout = textLayout("19-10", { letterGapCols: 1 });
+
+    expect(layout.rows).toBe(DIGIT_ROWS);
+    expect(layout.cols).toBe(DIGIT_COLS * 5 + 4);
+    expect(layout.regions.filter((r) => r.kind === "separator").map((r) => r.cols)).toEqual([1, 1, 1, 1]);
+    expect(layout.regions.filter((r) => r.kind === "glyph").map((r) => r.mask)).toEqual(
+      Array.from("19-10", (char) => glyphMask(char))
+    );
+  });
+
+  it("should reject empty text", () => {
+    expect(() => textLayout("")).toThrow("Text must have at least one character");
+  });
+});
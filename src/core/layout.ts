@@ -0,0 +1,110 @@
+import type { DigitMask, GlyphLayout, LayoutItem, LayoutOptions, LayoutRegion } from "./types";
+
+/**
+ * Glyph layouts: a row of glyphs and separators (optionally below an unlit
+ * padding strip) combined into one grid.
+ *
+ * A layout describes a display once: its mask is what the solver tiles, its
+ * regions are the rectangles solved one by one (see tileTimeGrid and tileText),
+ * and the UI reads the separator offsets to place things such as the colon.
+ */
+
+function unlit(rows: number, cols: number): DigitMask {
+  return Array.from({ length: rows }, () => Array(cols).fill(false));
+}
+
+/** Narrowest padding segment: an I piece lies flat in it, so it tiles without O pieces */
+const MIN_PADDING_SEGMENT_COLS = 4;
+
+/**
+ * Split the padding above the glyphs and separators into segments of whole
+ * column regions, so changing one glyph leaves the padding above the others
+ * alone. A region whose padding is too narrow or holds no multiple of 4 cells
+ * joins the next one (the last joins the one before it).
+ */
+function paddingSegments(placed: LayoutRegion[], paddingRows: number): LayoutRegion[] {
+  const spans: { colOffset: number; cols: number }[] = [];
+  let open: { colOffset: number; cols: number } | null = null;
+  for (const region of placed) {
+    open ??= { colOffset: region.colOffset, cols: 0 };
+    open.cols += region.cols;
+    if (open.cols >= MIN_PADDING_SEGMENT_COLS && (paddingRows * open.cols) % 4 === 0) {
+      spans.push(open);
+      open = null;
+    }
+  }
+  if (open) {
+    const last = spans.pop();
+    spans.push(last ? { colOffset: last.colOffset, cols: last.cols + open.cols } : open);
+  }
+
+  return spans.map(({ colOffset, cols }, index) => ({
+    kind: "padding",
+    index,
+    rowOffset: 0,
+    colOffset,
+    rows: paddingRows,
+    cols,
+    mask: unlit(paddingRows, cols),
+  }));
+}
+
+/**
+ * Lay out glyphs and separators left to right. Every glyph and separator mask
+ * must be as high as the first glyph. Throws for a layout without glyphs.
+ */
+export function layoutGlyphs(items: LayoutItem[], options?: LayoutOptions): GlyphLayout {
+  const first = items.find((item) => item.kind === "glyph");
+  if (!first) {
+    throw new Error("Layout must have at least one glyph");
+  }
+  const paddingRows = options?.paddingRows ?? 0;
+  if (paddingRows < 0 || !Number.isInteger(paddingRows)) {
+    throw new Error(`Invalid paddingRows: ${paddingRows}. Must be a non-negative integer.`);
+  }
+  const glyphRows = first.mask.length;
+
+  const placed: LayoutRegion[] = [];
+  const counts = { glyph: 0, separator: 0 };
+  let colOffset = 0;
+  items.forEach((item, position) => {
+    if (item.kind === "separator" && (item.cols < 0 || !Number.isInteger(item.cols))) {
+      throw new Error(`Invalid separator width: ${item.cols}. Must be a non-negative integer.`);
+    }
+    const mask = item.mask ?? unlit(glyphRows, item.kind === "separator" ? item.cols : 0);
+    const cols = item.kind === "separator" ? item.cols : (mask[0]?.length ?? 0);
+    if (mask.length !== glyphRows || mask.some((row) => row.length !== cols)) {
+      throw new Error(`Layout item ${position} is not ${glyphRows}×${cols}`);
+    }
+
+    const index = counts[item.kind]++;
+    if (cols > 0) {
+      placed.push({
+        kind: item.kind,
+        index,
+        id: item.id,
+        rowOffset: paddingRows,
+        colOffset,
+        rows: glyphRows,
+        cols,
+        mask,
+      });
+    }
+    colOffset += cols;
+  });
+
+  const rows = paddingRows + glyphRows;
+  const cols = colOffset;
+  const regions = paddingRows > 0 ? [...paddingSegments(placed, paddingRows), ...placed] : placed;
+
+  const mask = unlit(rows, cols);
+  for (const region of regions) {
+    for (let row = 0; row < region.rows; row++) {
+      for (let col = 0; col < region.cols; col++) {
+        mask[region.rowOffset + row][region.colOffset + col] = region.mask[row][col];
+      }
+    }
+  }
+
+  return { rows, cols, mask, regions };
+}
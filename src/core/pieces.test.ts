@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { definePiece, createPieceSet, pieceCellUnit, TROMINO_SET, PENTOMINO_SET } from './pieces';
+import { TETROMINO_SET } from './tetrominoes';
+
+describe('definePiece', () => {
+  it('should derive clockwise rotations from the base shape', () => {
+    const t = definePiece('T', 'XXX\n.X.');
+
+    expect(t.rotations).toEqual([
+      [{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 }, { row: 1, col: 1 }],
+      [{ row: 0, col: 1 }, { row: 1, col: 0 }, { row: 1, col: 1 }, { row: 2, col: 1 }],
+      [{ row: 0, col: 1 }, { row: 1, col: 0 }, { row: 1, col: 1 }, { row: 1, col: 2 }],
+      [{ row: 0, col: 0 }, { row: 1, col: 0 }, { row: 1, col: 1 }, { row: 2, col: 0 }],
+    ]);
+  });
+
+  it('should drop rotations that repeat an earlier one', () => {
+    expect(definePiece('O', 'XX\nXX').rotations).toHaveLength(1);
+    expect(definePiece('I', 'XXXXX').rotations).toHaveLength(2);
+    expect(definePiece('X', '.X.\nXXX\n.X.').rotations).toHaveLength(1);
+    expect(definePiece('F', '.XX\nXX.\n.X.').rotations).toHaveLength(4);
+  });
+
+  it('should accept cells instead of a visual shape', () => {
+    const domino = definePiece('D', [{ row: 5, col: 5 }, { row: 5, col: 6 }]);
+
+    expect(domino.rotations).toEqual([
+      [{ row: 0, col: 0 }, { row: 0, col: 1 }],
+      [{ row: 0, col: 0 }, { row: 1, col: 0 }],
+    ]);
+  });
+
+  it('should reject an empty shape', () => {
+    expect(() => definePiece('E', '...')).toThrow('Piece E has no cells');
+  });
+});
+
+describe('createPieceSet', () => {
+  it('should keep the piece order', () => {
+    const set = createPieceSet('test', [definePiece('B', 'XX'), definePiece('A', 'X')]);
+
+    expect(set.types).toEqual(['B', 'A']);
+    expect(set.pieces.A.rotations).toEqual([[{ row: 0, col: 0 }]]);
+  });
+
+  it('should reject duplicate types', () => {
+    expect(() => createPieceSet('test', [definePiece('A', 'XX'), definePiece('A', 'X')])).toThrow(
+      'Duplicate piece type A in test set'
+    );
+  });
+});
+
+describe('pieceCellUnit', () => {
+  it('should be the piece size for single-size sets', () => {
+    expect(pieceCellUnit(TETROMINO_SET)).toBe(4);
+    expect(pieceCellUnit(TROMINO_SET)).toBe(3);
+    expect(pieceCellUnit(PENTOMINO_SET)).toBe(5);
+  });
+
+  it('should be the gcd of the piece sizes for mixed sets', () => {
+    const mixed = createPieceSet('mixed', [definePiece('D', 'XX'), definePiece('O', 'XX\nXX')]);
+
+    expect(pieceCellUnit(mixed)).toBe(2);
+    expect(pieceCellUnit(mixed, ['O'])).toBe(4);
+  });
+});
+
+describe('built-in piece sets', () => {
+  it('should define the 18 one-sided pentominoes', () => {
+    expect(PENTOMINO_SET.types).toHaveLength(18);
+    for (const type of PENTOMINO_SET.types) {
+      for (const rotation of PENTOMINO_SET.pieces[type].rotations) {
+        expect(rotation, `${type}`).toHaveLength(5);
+      }
+    }
+  });
+
+  it('should make mirror images distinct pieces', () => {
+    const shapes = (type: string) => PENTOMINO_SET.pieces[type].rotations.map((r) => JSON.stringify(r));
+    for (const type of ['F', 'L', 'N', 'P', 'Y', 'Z']) {
+      const mirrored = shapes(`${type}'`);
+      expect(shapes(type).some((shape) => mirrored.includes(shape)), type).toBe(false);
+    }
+  });
+
+  it('should define the 2 trominoes', () => {
+    expect(TROMINO_SET.types).toEqual(['I', 'L']);
+    expect(TROMINO_SET.pieces.L.rotations).toHaveLength(4);
+  });
+});
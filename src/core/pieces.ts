@@ -0,0 +1,122 @@
+import type { Cell, PieceSet, PieceType, Polyomino } from './types';
+
+/**
+ * Piece set construction.
+ * A piece is defined by one base shape; its rotations are derived by turning
+ * it clockwise until it repeats, so symmetric pieces get fewer rotations
+ * (O: 1, I/S/Z: 2, T/J/L: 4).
+ */
+
+// Parse a visual shape: 'X' = filled, anything else = empty, one line per row
+function parseShape(shape: string): Cell[] {
+  const cells: Cell[] = [];
+  shape
+    .trim()
+    .split('\n')
+    .forEach((line, row) => {
+      line
+        .trim()
+        .split('')
+        .forEach((c, col) => {
+          if (c === 'X') cells.push({ row, col });
+        });
+    });
+  return cells;
+}
+
+/** Shift cells so the bounding box starts at (0, 0), sorted row-major */
+function normalize(cells: Cell[]): Cell[] {
+  const minRow = Math.min(...cells.map((c) => c.row));
+  const minCol = Math.min(...cells.map((c) => c.col));
+  return cells
+    .map((c) => ({ row: c.row - minRow, col: c.col - minCol }))
+    .sort((a, b) => a.row - b.row || a.col - b.col);
+}
+
+/** Turn a shape 90° clockwise */
+function rotateClockwise(cells: Cell[]): Cell[] {
+  return normalize(cells.map((c) => ({ row: c.col, col: -c.row })));
+}
+
+function shapeKey(cells: Cell[]): string {
+  return cells.map((c) => `${c.row},${c.col}`).join(' ');
+}
+
+/**
+ * Define a piece from its base shape (rotation 0), e.g. definePiece('T', 'XXX\n.X.').
+ * Rotation i is the base shape turned clockwise i times; the anchor of every
+ * rotation is the top-left of its bounding box.
+ */
+export function definePiece<T extends PieceType>(type: T, shape: string | Cell[]): { type: T; rotations: Cell[][] } {
+  const base = typeof shape === 'string' ? parseShape(shape) : shape;
+  if (base.length === 0) {
+    throw new Error(`Piece ${type} has no cells`);
+  }
+
+  const rotations = [normalize(base)];
+  const seen = new Set([shapeKey(rotations[0])]);
+  for (let turn = 1; turn < 4; turn++) {
+    const next = rotateClockwise(rotations[turn - 1]);
+    if (seen.has(shapeKey(next))) break;
+    seen.add(shapeKey(next));
+    rotations.push(next);
+  }
+
+  return { type, rotations };
+}
+
+/** Build a piece set; the order of `pieces` is the order of `types` */
+export function createPieceSet(name: string, pieces: Polyomino[]): PieceSet {
+  const byType: Record<PieceType, Polyomino> = {};
+  for (const piece of pieces) {
+    if (byType[piece.type]) {
+      throw new Error(`Duplicate piece type ${piece.type} in ${name} set`);
+    }
+    byType[piece.type] = piece;
+  }
+  return { name, types: pieces.map((p) => p.type), pieces: byType };
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * Every region tiled with these piece types has a size that is a multiple of
+ * this number: the greatest common divisor of the piece sizes (4 for tetrominoes).
+ */
+export function pieceCellUnit(pieceSet: PieceSet, types: PieceType[] = pieceSet.types): number {
+  return types.reduce((unit, type) => gcd(unit, pieceSet.pieces[type].rotations[0].length), 0);
+}
+
+/** The 2 trominoes */
+export const TROMINO_SET: PieceSet = createPieceSet('tromino', [
+  definePiece('I', 'XXX'),
+  definePiece('L', 'X.\nXX'),
+]);
+
+/**
+ * The 18 one-sided pentominoes (as in Pentris): the 12 free pentominoes plus
+ * the mirror images of the 6 chiral ones, marked with a prime (F').
+ * Pieces rotate but never flip, just like tetrominoes.
+ */
+export const PENTOMINO_SET: PieceSet = createPieceSet('pentomino', [
+  definePiece('I', 'XXXXX'),
+  definePiece('F', '.XX\nXX.\n.X.'),
+  definePiece("F'", 'XX.\n.XX\n.X.'),
+  definePiece('L', 'X...\nXXXX'),
+  definePiece("L'", '...X\nXXXX'),
+  definePiece('N', 'XX..\n.XXX'),
+  definePiece("N'", '..XX\nXXX.'),
+  definePiece('P', 'XX\nXX\nX.'),
+  definePiece("P'", 'XX\nXX\n.X'),
+  definePiece('T', 'XXX\n.X.\n.X.'),
+  definePiece('U', 'X.X\nXXX'),
+  definePiece('V', 'X..\nX..\nXXX'),
+  definePiece('W', 'X..\nXX.\n.XX'),
+  definePiece('X', '.X.\nXXX\n.X.'),
+  definePiece('Y', '.X..\nXXXX'),
+  definePiece("Y'", '..X.\nXXXX'),
+  definePiece('Z', 'XX.\n.X.\n.XX'),
+  definePiece("Z'", '.XX\n.X.\nXX.'),
+]);
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { Mulberry32, mulberry32, shuffle, hashSeed, resolveSeed, regionSeed, retrySeed } from "./random";
+
+// The values below are part of the seed contract: changing them breaks replays of old seeds
+
+describe("Mulberry32", () => {
+  it("should produce the reference sequence", () => {
+    const random = new Mulberry32(42);
+    expect([random.next(), random.next(), random.next()]).toEqual([
+      0.6011037519201636, 0.44829055899754167, 0.8524657934904099,
+    ]);
+  });
+
+  it("should only depend on the seed modulo 2^32", () => {
+    const a = mulberry32(42);
+    const b = mulberry32(42 + 2 ** 32);
+    expect([b.next(), b.next()]).toEqual([a.next(), a.next()]);
+  });
+});
+
+describe("shuffle", () => {
+  it("should return a shuffled copy", () => {
+    const items = [1, 2, 3, 4, 5];
+    expect(shuffle(new Mulberry32(1), items)).toEqual([5, 3, 2, 1, 4]);
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe("seeds", () => {
+  it("should hash strings to unsigned 32-bit numbers", () => {
+    expect(hashSeed("test-seed")).toBe(3068638924);
+    expect(hashSeed("a")).toBe(97);
+    expect(hashSeed("")).toBe(0);
+  });
+
+  it("should resolve numbers as given, strings by hash and nothing to the current time", () => {
+    expect(resolveSeed(42)).toBe(42);
+    expect(resolveSeed("test-seed")).toBe(3068638924);
+
+    const before = Date.now();
+    const seed = resolveSeed(undefined);
+    expect(seed).toBeGreaterThanOrEqual(before);
+    expect(seed).toBeLessThanOrEqual(Date.now());
+  });
+
+  it("should derive region seeds from the base seed", () => {
+    expect([0, 1, 2, 3].map((i) => regionSeed(100, "digit", i))).toEqual([
+      1660479815, 1660479808, 1660479809, 1660479810,
+    ]);
+    expect([0, 1, 2].map((i) => regionSeed(100, "gap", i))).toEqual([98121960, 98121961, 98121962]);
+    expect(regionSeed(100, "topStrip")).toBe(1619411293);
+  });
+
+  it("should give every region of a long display its own seed", () => {
+    // Glyph 10 and gap 0, or glyph 20 and the first top strip segment, must not share a seed
+    const seeds = (["digit", "gap", "topStrip"] as const).flatMap((region) =>
+      Array.from({ length: 100 }, (_, i) => regionSeed(100, region, i))
+    );
+    expect(new Set(seeds).size).toBe(seeds.length);
+  });
+
+  it("should derive retry seeds by golden-ratio steps", () => {
+    expect(retrySeed(42, 0)).toBe(42);
+    expect(retrySeed(42, 1)).toBe(2654435811);
+    expect(retrySeed(42, 2)).toBe(42 + 2 * 0x9e3779b9);
+  });
+});
@@ -0,0 +1,89 @@
+import type { Random, RandomFactory } from "./types";
+
+/**
+ * Random number generation and the seed contract.
+ *
+ * Every random choice the solver makes is drawn from a `Random` created from a
+ * numeric seed, so the seed and the options fully determine a tiling. The rules
+ * below are part of the public API: bug reports can be replayed by seed, and
+ * they only change in a major version.
+ *
+ * 1. Numeric seeds are used as given; string seeds are hashed with `hashSeed`.
+ * 2. An omitted seed is `Date.now()`. The seed actually used is reported in
+ *    `TileStats.seed`, so such a run can still be replayed.
+ * 3. Displays made of several regions solve each region with `regionSeed`:
+ *    region i of a kind ('digit', 'gap' or 'topStrip' for top strip segment i)
+ *    gets `base` XOR `hashSeed(kind + ':' + i)`. Every region hashes its own
+ *    string, so no two regions of a display share a seed however many there are.
+ *    A `singlePass` field is one region solved with `base` itself.
+ *    Text (tileText) follows the same rule with glyph i as digit i.
+ * 4. After a try runs out of budget, retry n uses `retrySeed(seed, n)`.
+ * 5. Unless `TileOptions.random` says otherwise, generators are Mulberry32.
+ */
+
+/**
+ * Mulberry32: a small, fast 32-bit generator.
+ * Integer seeds that agree modulo 2^32 give the same sequence.
+ */
+export class Mulberry32 implements Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed;
+  }
+
+  /** Get next random number in [0, 1) */
+  next(): number {
+    let t = (this.state += 0x6d2b79f5);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+/** The default RandomFactory */
+export const mulberry32: RandomFactory = (seed) => new Mulberry32(seed);
+
+/** Fisher–Yates shuffle into a new array, drawing one number per index from the last down */
+export function shuffle<T>(random: Random, array: T[]): T[] {
+  const result = [...array];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random.next() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/** Hash a string seed to an unsigned 32-bit number (the `h * 31 + charCode` string hash) */
+export function hashSeed(seed: string): number {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash << 5) - hash + seed.charCodeAt(i);
+    hash |= 0;
+  }
+  return hash >>> 0;
+}
+
+/** The numeric seed for a seed option (rules 1 and 2) */
+export function resolveSeed(seed: number | string | undefined): number {
+  if (seed === undefined) {
+    return Date.now();
+  }
+  return typeof seed === "number" ? seed : hashSeed(seed);
+}
+
+/** Kinds of regions with seeds of their own (rule 3) */
+export type SeedRegion = "digit" | "gap" | "topStrip";
+
+/** Seed of the index-th region of a kind, e.g. regionSeed(base, 'gap', 1) = base ^ hashSeed('gap:1') */
+export function regionSeed(baseSeed: number, region: SeedRegion, index = 0): number {
+  return (baseSeed ^ hashSeed(`${region}:${index}`)) >>> 0;
+}
+
+/**
+ * Seed for the given retry of a solve (rule 4; retry 0 is the seed itself).
+ * Steps by the 32-bit golden ratio so retries land far from each other.
+ */
+export function retrySeed(seed: number, retry: number): number {
+  return seed + retry * 0x9e3779b9;
+}
@@ -1,7 +1,8 @@
 import { describe, it, expect } from "vitest";
-import { sequencePieces } from "./sequencer";
-import { tileDigit, tileTime, tileGrid, tileTimeGrid, TIME_ROWS, TIME_COLS } from "./solver";
+import { sequencePieces, sequenceChangedPieces } from "./sequencer";
+import { tileDigit, tileTime, tileGrid, tileTimeGrid, retileTimeGrid, TIME_ROWS, TIME_COLS } from "./solver";
 import { TileResult } from "./types";
+import { DIGIT_ROWS } from "./digits";
 
 describe("sequencePieces", () => {
   it("should sequence a simple 4x4 grid", () => {
@@ -53,7 +54,7 @@ describe("sequencePieces", () => {
       success: false,
       pieces: [],
       grid: [],
-      stats: { attempts: 0, backtracks: 0, duration: 0 },
+      stats: { attempts: 0, backtracks: 0, duration: 0, typeCounts: { I: 0, O: 0, T: 0, S: 0, Z: 0, J: 0, L: 0 }, retries: 0 },
     };
 
     const seqResult = sequencePieces(emptyResult);
@@ -191,6 +192,69 @@ describe("sequencePieces (tileTimeGrid)", () => {
   });
 });
 
+describe("sequenceChangedPieces", () => {
+  it("should sequence only the pieces that retileTimeGrid replaced", () => {
+    const previous = tileTimeGrid(12, 34, { seed: 42 });
+    const result = retileTimeGrid(previous, 12, 35, { seed: 42 });
+    const previousIds = new Set(previous.pieces.map((p) => p.id));
+    const changed = result.pieces.filter((p) => !previousIds.has(p.id));
+
+    const seqResult = sequenceChangedPieces(result, previous);
+
+    expect(seqResult.success).toBe(true);
+    expect(seqResult.rows).toBe(TIME_ROWS);
+    expect(seqResult.cols).toBe(TIME_COLS);
+    expect(seqResult.sequence.map((s) => s.piece.id).sort()).toEqual(changed.map((p) => p.id).sort());
+    // The changed digit fills from the bottom; the top strip above it is replaced too
+    const digitPieces = seqResult.sequence.filter((s) => s.piece.cells.every((c) => c.row >= TIME_ROWS - DIGIT_ROWS));
+    expect(Math.max(...digitPieces[0].piece.cells.map((c) => c.row))).toBe(TIME_ROWS - 1);
+  });
+
+  it("should land new pieces on settled ones", () => {
+    // Two labels keep pieces inside their half; the bottom half stays, the top half is replaced
+    const mask = [2, 2, 1, 1].map((label) => Array(4).fill(label));
+    const previous = tileGrid(4, 4, mask, { seed: 1 });
+    const renamed = new Map(
+      previous.pieces.map((p) => [p.id, p.label === 2 ? { ...p, id: `new-${p.id}` } : p])
+    );
+    const result: TileResult = {
+      ...previous,
+      pieces: [...renamed.values()],
+      grid: previous.grid.map((row) => row.map((p) => renamed.get(p!.id)!)),
+    };
+
+    const seqResult = sequenceChangedPieces(result, previous);
+
+    expect(seqResult.success).toBe(true);
+    expect(seqResult.sequence.map((s) => s.piece.id).sort()).toEqual(
+      result.pieces.filter((p) => p.label === 2).map((p) => p.id).sort()
+    );
+  });
+
+  it("should not drop new pieces through settled ones", () => {
+    // The top half stays, the bottom half below it is replaced
+    const mask = [2, 2, 1, 1].map((label) => Array(4).fill(label));
+    const previous = tileGrid(4, 4, mask, { seed: 1 });
+    const renamed = new Map(
+      previous.pieces.map((p) => [p.id, p.label === 1 ? { ...p, id: `new-${p.id}` } : p])
+    );
+    const result: TileResult = {
+      ...previous,
+      pieces: [...renamed.values()],
+      grid: previous.grid.map((row) => row.map((p) => renamed.get(p!.id)!)),
+    };
+
+    expect(sequenceChangedPieces(result, previous).success).toBe(false);
+  });
+
+  it("should return an empty sequence when nothing changed", () => {
+    const previous = tileTimeGrid(12, 34, { seed: 42 });
+    const seqResult = sequenceChangedPieces(retileTimeGrid(previous, 12, 34, { seed: 42 }), previous);
+
+    expect(seqResult).toEqual({ success: true, sequence: [], rows: TIME_ROWS, cols: TIME_COLS });
+  });
+});
+
 describe("Tetris mechanics", () => {
   it("first piece in sequence should touch the grid bottom", () => {
     const mask = Array.from({ length: 4 }, () => Array(4).fill(true));
@@ -5,7 +5,6 @@ import type {
   SequenceResult,
   PlacementStep,
 } from './types';
-import { TETROMINOES } from './tetrominoes';
 
 /**
  * Pick an item from a sorted array using an interleaved pattern.
@@ -36,15 +35,28 @@ function pickInterleaved<T>(sortedItems: T[], sequenceIndex: number): T {
   }
 }
 
+/** Whether any of the `settledCells` ("row,col") lies above a cell of the piece, blocking its drop path */
+function isBelowSettledCells(piece: PlacedTetromino, settledCells: Set<string>): boolean {
+  return piece.cells.some((cell) => {
+    for (let row = 0; row < cell.row; row++) {
+      if (settledCells.has(`${row},${cell.col}`)) return true;
+    }
+    return false;
+  });
+}
+
 /**
  * Check if a piece can be dropped from the top to its final position
- * given the current state of placed pieces
+ * given the current state of placed pieces and the cells settled before sequencing
  */
 function canDropPiece(
   piece: PlacedTetromino,
   placedPieces: Set<string>,
-  grid: (PlacedTetromino | null)[][]
+  grid: (PlacedTetromino | null)[][],
+  settledCells: Set<string>
 ): boolean {
+  if (isBelowSettledCells(piece, settledCells)) return false;
+
   // For each cell of the piece, check that all cells above it (in its column)
   // are either empty or belong to pieces not yet placed
   for (const cell of piece.cells) {
@@ -68,8 +80,8 @@ function generateSteps(
   gridRows: number
 ): PlacementStep[] {
   const steps: PlacementStep[] = [];
-  const tetromino = TETROMINOES[piece.type];
-  const rotation = tetromino.rotations[piece.rotationIndex];
+  // The piece's cells relative to its anchor (works for any piece set)
+  const rotation = piece.cells.map((c) => ({ row: c.row - piece.anchor.row, col: c.col - piece.anchor.col }));
 
   // Calculate piece dimensions
   const pieceMinCol = Math.min(...rotation.map((c) => c.col));
@@ -169,6 +181,36 @@ function isPieceSupported(
  * naturally fall and land, starting with pieces that touch the bottom.
  */
 export function sequencePieces(result: TileResult): SequenceResult {
+  return sequenceOnto(result, new Set());
+}
+
+/**
+ * Sequence only the pieces of `result` that are not in `previous` (matched by ID),
+ * e.g. after retileTimeGrid: the reused pieces stay where they are and the new
+ * pieces land around and on top of them. Fails if a reused piece sits above a
+ * new one, since nothing can drop through it.
+ */
+export function sequenceChangedPieces(result: TileResult, previous: TileResult): SequenceResult {
+  const reusedIds = new Set(previous.pieces.map((p) => p.id));
+  const changed = result.pieces.filter((p) => !reusedIds.has(p.id));
+  if (result.success && changed.length === 0) {
+    return { success: true, sequence: [], rows: result.grid.length, cols: result.grid[0]?.length ?? 0 };
+  }
+
+  // Reused pieces are already settled: they support and block new pieces but are not placed again
+  const settledCells = new Set<string>();
+  for (const piece of result.pieces) {
+    if (!reusedIds.has(piece.id)) continue;
+    for (const cell of piece.cells) {
+      settledCells.add(`${cell.row},${cell.col}`);
+    }
+  }
+  const grid = result.grid.map((row) => row.map((piece) => (piece && !reusedIds.has(piece.id) ? piece : null)));
+  return sequenceOnto({ ...result, pieces: changed, grid }, settledCells);
+}
+
+/** Gravity-based sequencing onto a field whose `settledCells` ("row,col") are already filled */
+function sequenceOnto(result: TileResult, settledCells: Set<string>): SequenceResult {
   if (!result.success || result.pieces.length === 0) {
     return {
       success: false,
@@ -183,7 +225,7 @@ export function sequencePieces(result: TileResult): SequenceResult {
   const maxRow = gridRows - 1;
 
   // Track placed cells and remaining pieces
-  const placedCells = new Set<string>();
+  const placedCells = new Set(settledCells);
   const remainingPieces = new Set(result.pieces.map((p) => p.id));
   const pieceMap = new Map(result.pieces.map((p) => [p.id, p]));
   const sequence: SequencedPiece[] = [];
@@ -197,7 +239,7 @@ export function sequencePieces(result: TileResult): SequenceResult {
       const piece = pieceMap.get(pieceId)!;
       if (isPieceSupported(piece, placedCells, maxRow)) {
         // Also check that drop path is clear
-        if (canDropPiece(piece, new Set(sequence.map((s) => s.piece.id)), result.grid)) {
+        if (canDropPiece(piece, new Set(sequence.map((s) => s.piece.id)), result.grid, settledCells)) {
           supportedPieces.push(piece);
         }
       }
@@ -210,7 +252,8 @@ export function sequencePieces(result: TileResult): SequenceResult {
         result.pieces,
         result.grid,
         gridRows,
-        gridCols
+        gridCols,
+        settledCells
       );
       if (fallbackResult) {
         return fallbackResult;
@@ -270,13 +313,19 @@ export function sequencePieces(result: TileResult): SequenceResult {
 /**
  * Try to find a valid sequence order using topological sort.
  * A piece A must come before piece B if any cell of B is directly above any cell of A.
+ * No order drops a piece through `settledCells`.
  */
 function tryReorderForValidSequence(
   pieces: PlacedTetromino[],
   grid: (PlacedTetromino | null)[][],
   gridRows: number,
-  gridCols: number
+  gridCols: number,
+  settledCells: Set<string>
 ): SequenceResult | null {
+  if (pieces.some((piece) => isBelowSettledCells(piece, settledCells))) {
+    return null;
+  }
+
   // Build dependency graph: piece A depends on piece B if B blocks A's drop path
   const dependencies = new Map<string, Set<string>>();
   const pieceMap = new Map<string, PlacedTetromino>();
@@ -353,19 +402,24 @@ function tryReorderForValidSequence(
     return null; // Cycle detected, impossible to sequence
   }
 
-  // Build the sequence
-  const sequence: SequencedPiece[] = [];
-  for (let i = 0; i < sortedIds.length; i++) {
-    const piece = pieceMap.get(sortedIds[i])!;
-    const steps = generateSteps(piece, gridCols, gridRows);
+  return sequenceInOrder(
+    sortedIds.map((id) => pieceMap.get(id)!),
+    gridRows,
+    gridCols
+  );
+}
 
-    sequence.push({
-      piece,
-      order: i,
-      dropColumn: piece.anchor.col,
-      steps,
-    });
-  }
+/**
+ * Build a sequence that drops the pieces in the given order, e.g. to restore
+ * a decoded sequence (the steps only depend on each piece and the grid size).
+ */
+export function sequenceInOrder(pieces: PlacedTetromino[], gridRows: number, gridCols: number): SequenceResult {
+  const sequence: SequencedPiece[] = pieces.map((piece, order) => ({
+    piece,
+    order,
+    dropColumn: piece.anchor.col,
+    steps: generateSteps(piece, gridCols, gridRows),
+  }));
 
   return {
     success: true,
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import {
+  buildSolutionBankEntry,
+  loadSolutionBank,
+  verifySolutionBank,
+  solutionBankSeed,
+  SOLUTION_BANK_SIZE,
+} from "./solution-bank";
+import { decodeSequence } from "./encoding";
+import { maskLabel } from "./digits";
+import { tileTimeGrid, timeGridMask, TIME_ROWS, TIME_COLS } from "./solver";
+import type { PlacedTetromino, SolutionBank } from "./types";
+
+const shippedBankFile = resolve(__dirname, "../../public/solution-bank.json");
+const shippedBankContents = readFileSync(shippedBankFile, "utf8");
+const shippedBank: SolutionBank = JSON.parse(shippedBankContents);
+
+/** A bank whose every entry is the given one (only valid for that time) */
+function bankOf(entry: string): SolutionBank {
+  return { version: 2, seed: "test", candidates: 1, entries: Array(SOLUTION_BANK_SIZE).fill(entry) };
+}
+
+describe("solution bank", () => {
+  it("should derive candidate seeds from the bank seed and the time", () => {
+    expect(solutionBankSeed("tetris-time", 12, 34, 0)).toBe(solutionBankSeed("tetris-time", 12, 34, 0));
+    expect(solutionBankSeed("tetris-time", 12, 34, 0)).not.toBe(solutionBankSeed("tetris-time", 12, 34, 1));
+    expect(solutionBankSeed("tetris-time", 12, 34, 0)).not.toBe(solutionBankSeed("tetris-time", 12, 35, 0));
+    expect(solutionBankSeed(7, 0, 0, 0)).toBe(solutionBankSeed("7", 0, 0, 0));
+  });
+
+  it("should build the same entry from the same seed", () => {
+    const entry = buildSolutionBankEntry(9, 41, "test", 2);
+
+    expect(buildSolutionBankEntry(9, 41, "test", 2)).toBe(entry);
+    expect(buildSolutionBankEntry(9, 41, "other", 2)).not.toBe(entry);
+  });
+
+  it("should keep the candidate with the most lit piece types", () => {
+    const litTypes = (pieces: PlacedTetromino[]) => new Set(pieces.filter((p) => p.isLit).map((p) => p.type)).size;
+    const placements = (pieces: PlacedTetromino[]) =>
+      pieces.map((p) => `${p.type}${p.rotationIndex}@${p.anchor.row},${p.anchor.col}`).sort();
+    // The candidates the builder solves, from the same derived seeds
+    const candidates = [0, 1, 2, 3].map((candidate) =>
+      tileTimeGrid(10, 8, { seed: solutionBankSeed("test", 10, 8, candidate), colon: true })
+    );
+    const mostTypes = Math.max(...candidates.map((tile) => litTypes(tile.pieces)));
+
+    const best = decodeSequence(buildSolutionBankEntry(10, 8, "test", 4)).tile;
+    expect(litTypes(best.pieces)).toBe(mostTypes);
+    expect(
+      candidates.filter((tile) => litTypes(tile.pieces) === mostTypes).map((tile) => placements(tile.pieces))
+    ).toContainEqual(placements(best.pieces));
+    // Not every candidate ties, or this would not test the choice
+    expect(candidates.some((tile) => litTypes(tile.pieces) < mostTypes)).toBe(true);
+  });
+
+  it("should ship the bank on one line with its checked-in SHA-256", () => {
+    const [hash, name] = readFileSync(`${shippedBankFile}.sha256`, "utf8").trim().split(/\s+/);
+
+    expect(shippedBankContents.trimEnd()).not.toContain("\n");
+    expect(name).toBe("solution-bank.json");
+    expect(createHash("sha256").update(shippedBankContents).digest("hex")).toBe(hash);
+  });
+
+  it("should look times up in a loaded bank", () => {
+    const lookup = loadSolutionBank(shippedBank);
+    const { tile, sequence } = lookup.get(12, 34);
+
+    expect(lookup.seed).toBe(shippedBank.seed);
+    expect(tile.success).toBe(true);
+    expect(tile.grid).toHaveLength(TIME_ROWS);
+    expect(tile.grid[0]).toHaveLength(TIME_COLS);
+    expect(tile.grid.map((row) => row.map((piece) => piece?.label))).toEqual(
+      timeGridMask(12, 34, { colon: true }).map((row) => row.map(maskLabel))
+    );
+    expect(sequence.success).toBe(true);
+    expect(sequence.sequence).toHaveLength(tile.pieces.length);
+    expect(() => lookup.get(24, 0)).toThrow("Invalid hours: 24. Must be an integer 0-23.");
+  });
+
+  it("should reject banks of another shape", () => {
+    expect(() => loadSolutionBank(null)).toThrow("Invalid solution bank: not an object");
+    expect(() => loadSolutionBank({ ...shippedBank, version: 1 })).toThrow("Unsupported solution bank version 1");
+    expect(() => loadSolutionBank({ ...shippedBank, entries: shippedBank.entries.slice(1) })).toThrow(
+      "Invalid solution bank: expected 1440 encoded entries"
+    );
+  });
+
+  it("should verify the shipped bank", () => {
+    expect(shippedBank.entries).toHaveLength(SOLUTION_BANK_SIZE);
+    expect(verifySolutionBank(shippedBank)).toEqual([]);
+  });
+
+  it("should report entries that do not show their time", () => {
+    const problems = verifySolutionBank(bankOf(shippedBank.entries[0]));
+
+    expect(problems).toHaveLength(SOLUTION_BANK_SIZE - 1);
+    expect(problems[0]).toMatch(/^00:01: row \d+ does not match the time$/);
+  });
+
+  it("should report entries that do not decode", () => {
+    const entries = [...shippedBank.entries];
+    entries[61] = entries[61].replace("12x32", "12x36");
+    entries[62] = "not an entry";
+
+    const problems = verifySolutionBank({ ...shippedBank, entries });
+
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toMatch(/^01:01: Invalid tiling: /);
+    expect(problems[1]).toBe("01:02: Unsupported encoding version not an entry");
+    expect(verifySolutionBank({ version: 2 })).toEqual(["Invalid solution bank: expected 1440 encoded entries"]);
+  });
+});
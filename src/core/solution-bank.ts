@@ -0,0 +1,160 @@
+import type { SequenceResult, SolutionBank, SolutionBankLookup, SolutionBankOptions, TileResult } from "./types";
+import { tileTimeGrid, timeGridMask, TIME_ROWS, TIME_COLS } from "./solver";
+import { sequencePieces } from "./sequencer";
+import { encodeSequenceString, decodeSequence } from "./encoding";
+import { hashSeed, resolveSeed } from "./random";
+import { maskLabel } from "./digits";
+
+/**
+ * A solution bank holds one curated tiling and drop order for every HH:MM
+ * (clock mode, default layout with the colon tiled in), so a clock can look times up instead of
+ * solving them. Banks are JSON (SolutionBank) and are built offline by
+ * scripts/solution-bank.mjs.
+ *
+ * Candidate c of the time at index i (hours * 60 + minutes) is solved with
+ * seed hashSeed(`${seed}:${i}:${c}`), so a bank is rebuilt exactly from its
+ * seed and candidate count.
+ */
+
+/** Minutes in a day: the number of entries in a bank */
+export const SOLUTION_BANK_SIZE = 24 * 60;
+
+const DEFAULT_CANDIDATES = 4;
+
+function formatTime(index: number): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(Math.floor(index / 60))}:${pad(index % 60)}`;
+}
+
+/** Seed of one candidate tiling in a bank */
+export function solutionBankSeed(seed: number | string, hours: number, minutes: number, candidate: number): number {
+  return hashSeed(`${seed}:${hours * 60 + minutes}:${candidate}`);
+}
+
+/**
+ * Rank a candidate: more distinct lit piece types first (a more colorful
+ * display), then fewer placement steps (a shorter animation).
+ */
+function candidateScore(tile: TileResult, sequence: SequenceResult): [number, number] {
+  const litTypes = new Set(tile.pieces.filter((p) => p.isLit).map((p) => p.type));
+  const steps = sequence.sequence.reduce((sum, s) => sum + s.steps.length, 0);
+  return [litTypes.size, -steps];
+}
+
+/** Solve the candidates for one time and encode the best one */
+export function buildSolutionBankEntry(
+  hours: number,
+  minutes: number,
+  seed: number | string,
+  candidates = DEFAULT_CANDIDATES
+): string {
+  let best: { tile: TileResult; sequence: SequenceResult; score: [number, number] } | null = null;
+  for (let candidate = 0; candidate < candidates; candidate++) {
+    const tile = tileTimeGrid(hours, minutes, { seed: solutionBankSeed(seed, hours, minutes, candidate), colon: true });
+    if (!tile.success) continue;
+    const sequence = sequencePieces(tile);
+    if (!sequence.success) continue;
+    const score = candidateScore(tile, sequence);
+    if (!best || score[0] > best.score[0] || (score[0] === best.score[0] && score[1] > best.score[1])) {
+      best = { tile, sequence, score };
+    }
+  }
+  if (!best) {
+    throw new Error(`No candidate for ${formatTime(hours * 60 + minutes)} tiled and sequenced`);
+  }
+  return encodeSequenceString(best.sequence, best.tile);
+}
+
+/** Build a bank for all 1440 times (slow: meant for scripts, not the browser) */
+export function buildSolutionBank(options?: SolutionBankOptions): SolutionBank {
+  const seed = typeof options?.seed === "string" ? options.seed : resolveSeed(options?.seed);
+  const candidates = options?.candidates ?? DEFAULT_CANDIDATES;
+  if (!Number.isInteger(candidates) || candidates < 1) {
+    throw new Error(`Invalid candidates: ${candidates}. Must be a positive integer.`);
+  }
+
+  const entries: string[] = [];
+  for (let index = 0; index < SOLUTION_BANK_SIZE; index++) {
+    entries.push(buildSolutionBankEntry(Math.floor(index / 60), index % 60, seed, candidates));
+    options?.onProgress?.(index + 1, SOLUTION_BANK_SIZE);
+  }
+  return { version: 2, seed, candidates, entries };
+}
+
+/** Check the shape of parsed bank JSON */
+function assertSolutionBank(bank: unknown): asserts bank is SolutionBank {
+  const candidate = bank as Partial<SolutionBank> | null;
+  if (typeof candidate !== "object" || candidate === null) {
+    throw new Error("Invalid solution bank: not an object");
+  }
+  if (candidate.version !== 2) {
+    throw new Error(`Unsupported solution bank version ${candidate.version}`);
+  }
+  if (
+    !Array.isArray(candidate.entries) ||
+    candidate.entries.length !== SOLUTION_BANK_SIZE ||
+    candidate.entries.some((entry) => typeof entry !== "string")
+  ) {
+    throw new Error(`Invalid solution bank: expected ${SOLUTION_BANK_SIZE} encoded entries`);
+  }
+}
+
+/**
+ * Load parsed bank JSON. Entries are decoded (and validated) on lookup,
+ * so loading stays cheap.
+ */
+export function loadSolutionBank(bank: unknown): SolutionBankLookup {
+  assertSolutionBank(bank);
+  return {
+    seed: bank.seed,
+    get(hours, minutes) {
+      if (hours < 0 || hours > 23 || !Number.isInteger(hours)) {
+        throw new Error(`Invalid hours: ${hours}. Must be an integer 0-23.`);
+      }
+      if (minutes < 0 || minutes > 59 || !Number.isInteger(minutes)) {
+        throw new Error(`Invalid minutes: ${minutes}. Must be an integer 0-59.`);
+      }
+      return decodeSequence(bank.entries[hours * 60 + minutes]);
+    },
+  };
+}
+
+/**
+ * Check every entry of a bank: it decodes to a full tiling of the time grid,
+ * lights exactly the cells of its time and drops every piece.
+ * Returns one message per problem (empty when the bank is sound).
+ */
+export function verifySolutionBank(bank: unknown): string[] {
+  try {
+    assertSolutionBank(bank);
+  } catch (error) {
+    return [(error as Error).message];
+  }
+
+  const problems: string[] = [];
+  bank.entries.forEach((entry, index) => {
+    const time = formatTime(index);
+    try {
+      const { tile, sequence } = decodeSequence(entry);
+      if (tile.grid.length !== TIME_ROWS || tile.grid[0]?.length !== TIME_COLS) {
+        problems.push(`${time}: grid is ${tile.grid.length}x${tile.grid[0]?.length ?? 0}, not ${TIME_ROWS}x${TIME_COLS}`);
+        return;
+      }
+
+      const mask = timeGridMask(Math.floor(index / 60), index % 60, { colon: true });
+      const wrongRow = tile.grid.findIndex((row, r) =>
+        row.some((piece, c) => piece?.label !== maskLabel(mask[r][c]))
+      );
+      if (wrongRow >= 0) {
+        problems.push(`${time}: row ${wrongRow} does not match the time`);
+      }
+
+      if (!sequence.success || sequence.sequence.length !== tile.pieces.length) {
+        problems.push(`${time}: drop order does not place every piece`);
+      }
+    } catch (error) {
+      problems.push(`${time}: ${(error as Error).message}`);
+    }
+  });
+  return problems;
+}
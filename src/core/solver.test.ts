@@ -1,6 +1,31 @@
 import { describe, it, expect } from "vitest";
-import { tileGrid, tileDigit, tileTime, tileTimeGrid, TIME_ROWS, TIME_COLS } from "./solver";
-import { DIGIT_ROWS, DIGIT_COLS, countLitCells, countUnlitCells } from "./digits";
+import {
+  tileGrid,
+  tileDigit,
+  tileTime,
+  tileTimeGrid,
+  tileGridAsync,
+  tileTimeGridAsync,
+  retileTimeGrid,
+  retileTimeGridAsync,
+  tileText,
+  tileTextAsync,
+  timeGridMask,
+  timeGridSize,
+  countTilings,
+  enumerateTilings,
+  TIME_ROWS,
+  TIME_COLS,
+  TIME_DIGIT_GAP_COLS,
+  TIME_COLON_GAP_COLS,
+} from "./solver";
+import type { TileProgress } from "./types";
+import { PENTOMINO_SET, TROMINO_SET, createPieceSet, definePiece } from "./pieces";
+import { sequencePieces, sequenceChangedPieces } from "./sequencer";
+import { DIGIT_PATTERNS, DIGIT_ROWS, DIGIT_COLS, countLitCells, countUnlitCells, maskLabel } from "./digits";
+import { GLYPH_ROWS, GLYPH_COLS, COLON_LABEL } from "./glyphs";
+import { glyphMask, BLOCK_FONT, SEVEN_SEGMENT_FONT, ROUNDED_FONT, COMPACT_FONT } from "./fonts";
+import { regionSeed } from "./random";
 
 describe("tileGrid", () => {
   it("should tile a simple 4x4 uniform grid", () => {
@@ -65,6 +90,498 @@ describe("tileGrid", () => {
   });
 });
 
+describe("tileGrid piece type restrictions", () => {
+  it("should only use allowed piece types", () => {
+    const result = tileDigit(1, { seed: 42, allowedTypes: ["I", "L", "J"] });
+
+    expect(result.success).toBe(true);
+    expect(result.pieces.every((p) => ["I", "L", "J"].includes(p.type))).toBe(true);
+  });
+
+  it("should never use forbidden piece types", () => {
+    const result = tileDigit(0, { seed: 42, forbiddenTypes: ["O"] });
+
+    expect(result.success).toBe(true);
+    expect(result.pieces.some((p) => p.type === "O")).toBe(false);
+  });
+
+  it("should report when the mask cannot be tiled with the allowed set", () => {
+    // Digit 8 has 2x2 holes that only an O piece can fill
+    const result = tileDigit(8, { seed: 42, forbiddenTypes: ["O"] });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(
+      "Mask cannot be tiled using pieces I, T, S, Z, J, L: " +
+        "Unlit region at (2, 2) has 4 cells that no allowed piece fits into; " +
+        "Unlit region at (6, 2) has 4 cells that no allowed piece fits into"
+    );
+    expect(result.stats.attempts).toBe(0);
+  });
+
+  it("should report when no piece types remain", () => {
+    const mask = Array.from({ length: 4 }, () => Array(4).fill(true));
+    const result = tileGrid(4, 4, mask, { allowedTypes: ["O"], forbiddenTypes: ["O"] });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/No tetromino types allowed/);
+  });
+
+  it("should report when maxAttempts runs out", () => {
+    // T pieces alone pass every mask check on a 2-row strip but can never fill it
+    const mask = Array.from({ length: 2 }, () => Array(40).fill(true));
+    const result = tileGrid(2, 40, mask, { seed: 42, allowedTypes: ["T"], maxAttempts: 1000 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Gave up after 1000 attempts/);
+  });
+
+  it("should not set an error on success", () => {
+    const result = tileDigit(0, { seed: 42 });
+    expect(result.error).toBeUndefined();
+  });
+});
+
+describe("tileGrid budgets and retries", () => {
+  // T pieces alone pass every mask check on a 2-row strip but can never fill it
+  const strip = Array.from({ length: 2 }, () => Array(40).fill(true));
+
+  it("should retry with derived seeds when the attempt budget runs out", () => {
+    const result = tileGrid(2, 40, strip, { seed: 42, allowedTypes: ["T"], maxAttempts: 1000, maxRetries: 2 });
+
+    expect(result.success).toBe(false);
+    expect(result.stats.retries).toBe(2);
+    expect(result.stats.attempts).toBeGreaterThanOrEqual(3000);
+    expect(result.error).toBe("Gave up after 1000 attempts using pieces T (3 seeds tried)");
+  });
+
+  it("should record the seed that succeeded", () => {
+    // Seed 42 needs more than 100 attempts for digit 1; the first derived seed does not
+    const result = tileDigit(1, { seed: 42, maxAttempts: 100, maxRetries: 3 });
+
+    expect(result.success).toBe(true);
+    expect(result.stats.retries).toBe(1);
+    expect(result.stats.seed).toBe(42 + 0x9e3779b9);
+    expect(tileDigit(1, { seed: result.stats.seed, maxAttempts: 100 }).pieces).toEqual(result.pieces);
+  });
+
+  it("should not retry unless maxRetries asks for it", () => {
+    const result = tileDigit(1, { seed: 42, maxAttempts: 100 });
+
+    expect(result.success).toBe(false);
+    expect(result.stats.retries).toBe(0);
+    expect(result.stats.seed).toBe(42);
+  });
+
+  it("should stop a try when the time budget runs out", () => {
+    // The 2×40 strip is searched to the end within 20 ms once the JIT is warm; this one never is
+    const longStrip = Array.from({ length: 2 }, () => Array(80).fill(true));
+    const result = tileGrid(2, 80, longStrip, {
+      seed: 42,
+      allowedTypes: ["T"],
+      maxAttempts: Infinity,
+      maxDurationMs: 20,
+      maxRetries: 1,
+    });
+
+    // Without an attempt limit only the time budget ends a try, and only a try that ends is retried
+    expect(result.success).toBe(false);
+    expect(result.stats.retries).toBe(1);
+    expect(result.stats.attempts).toBeGreaterThan(0);
+    expect(result.error).toBe("Gave up after 20 ms using pieces T (2 seeds tried)");
+  });
+
+  it("should not retry masks that cannot be tiled", () => {
+    // Rejected by analysis, and a 2x8 strip that the T-only search fully explores
+    const rejected = tileDigit(8, { seed: 42, forbiddenTypes: ["O"], maxRetries: 3 });
+    const exhausted = tileGrid(2, 8, strip.map((row) => row.slice(0, 8)), { seed: 42, allowedTypes: ["T"], maxRetries: 3 });
+
+    expect(rejected.stats.retries).toBe(0);
+    expect(exhausted.success).toBe(false);
+    expect(exhausted.stats.retries).toBe(0);
+    expect(exhausted.error).toBe("Mask cannot be tiled using pieces T");
+  });
+
+  it("should sum retries over the regions of a time grid", () => {
+    const result = tileTimeGrid(11, 11, { seed: 42, maxAttempts: 1000, maxRetries: 3 });
+
+    expect(result.success).toBe(true);
+    expect(result.stats.retries).toBeGreaterThan(0);
+    expect(result.stats.seed).toBe(42);
+  });
+});
+
+describe("tileGrid seeds and random numbers", () => {
+  const signature = (pieces: { type: string; rotationIndex: number; anchor: { row: number; col: number } }[]) =>
+    pieces.map((p) => `${p.type}${p.rotationIndex}@${p.anchor.row},${p.anchor.col}`).join(" ");
+
+  it("should reproduce pinned tilings across versions", () => {
+    expect(signature(tileDigit(0, { seed: 42 }).pieces)).toBe(
+      "T3@0,0 Z0@0,1 J2@0,3 S1@1,4 I1@2,1 O0@2,2 I1@3,0 I1@3,4 O0@4,2 I1@4,5 L1@6,1 O0@6,2 L1@7,0 S1@7,4 T2@8,2"
+    );
+    const time = tileTimeGrid(12, 34, { seed: "bug-report" });
+    expect(signature(time.pieces.filter((p) => p.isLit).slice(0, 6))).toBe(
+      "J1@2,4 I1@3,5 L1@5,4 L3@8,4 L1@9,4 L2@2,8"
+    );
+  });
+
+  it("should report the seed used when none is given", () => {
+    const result = tileDigit(4);
+
+    expect(result.stats.seed).toBeDefined();
+    expect(tileDigit(4, { seed: result.stats.seed }).pieces).toEqual(result.pieces);
+  });
+
+  it("should draw from an injected generator", () => {
+    const seeds: number[] = [];
+    const random = (seed: number) => {
+      seeds.push(seed);
+      return { next: () => 0 };
+    };
+    const result = tileTimeGrid(12, 34, { seed: 100, random });
+
+    expect(result.success).toBe(true);
+    // One generator per region: the top strip segments, then digits and gaps left to right
+    const digit = (i: number) => regionSeed(100, "digit", i);
+    const gap = (i: number) => regionSeed(100, "gap", i);
+    const strip = [0, 1, 2, 3, 4].map((i) => regionSeed(100, "topStrip", i));
+    expect(seeds).toEqual([...strip, digit(0), gap(0), digit(1), gap(1), digit(2), gap(2), digit(3)]);
+    expect(tileTimeGrid(12, 34, { seed: 100, random }).pieces).toEqual(result.pieces);
+    expect(result.pieces).not.toEqual(tileTimeGrid(12, 34, { seed: 100 }).pieces);
+  });
+});
+
+describe("tileGrid piece mix", () => {
+  const distinctTypes = (counts: Record<string, number>) => Object.values(counts).filter((n) => n > 0).length;
+
+  it("should report per-type counts in stats", () => {
+    const result = tileDigit(0, { seed: 42 });
+
+    expect(result.success).toBe(true);
+    for (const [type, count] of Object.entries(result.stats.typeCounts)) {
+      expect(count, `Count for ${type}`).toBe(result.pieces.filter((p) => p.type === type).length);
+    }
+  });
+
+  it("should use at least minDistinctTypes piece types", () => {
+    const result = tileDigit(0, { seed: 7, pieceMix: { minDistinctTypes: 6 } });
+
+    expect(result.success).toBe(true);
+    expect(distinctTypes(result.stats.typeCounts)).toBeGreaterThanOrEqual(6);
+  });
+
+  it("should keep type counts within maxCountSpread (7-bag fairness)", () => {
+    const result = tileDigit(0, { seed: 7, pieceMix: { maxCountSpread: 1 } });
+
+    expect(result.success).toBe(true);
+    const counts = Object.values(result.stats.typeCounts);
+    expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(1);
+  });
+
+  it("should measure the spread over allowed types only", () => {
+    const result = tileDigit(1, { seed: 7, allowedTypes: ["I", "L", "J"], pieceMix: { maxCountSpread: 1 } });
+
+    expect(result.success).toBe(true);
+    const { I, L, J } = result.stats.typeCounts;
+    expect(Math.max(I, L, J) - Math.min(I, L, J)).toBeLessThanOrEqual(1);
+  });
+
+  it("should fail with an explanation when the mix is impossible for the mask", () => {
+    // Digit 3 is built from 2-wide strips that never fit T, S or Z pieces
+    const result = tileDigit(3, { seed: 7, pieceMix: { maxCountSpread: 1 } });
+
+    expect(result.success).toBe(false);
+    expect(result.stats.attempts).toBe(0);
+    expect(result.error).toBe(
+      "Mask cannot be tiled with the requested piece mix: it needs 7 distinct types, and no tiling using pieces I, O, T, S, Z, J, L has that many"
+    );
+  });
+
+  it("should meet each target on every digit that allows it and reject the others up front", () => {
+    // No tiling of digits 2, 3 and 5 uses more than 4 types, none of digit 4 more than 6,
+    // and 15 pieces at most 1 apart need all 7 types
+    const targets = [
+      { pieceMix: { minDistinctTypes: 5 }, impossible: [2, 3, 5] },
+      { pieceMix: { maxCountSpread: 1 }, impossible: [2, 3, 4, 5] },
+    ];
+
+    for (const { pieceMix, impossible } of targets) {
+      for (let digit = 0; digit <= 9; digit++) {
+        const result = tileDigit(digit, { seed: 7, pieceMix });
+        const counts = Object.values(result.stats.typeCounts);
+
+        if (impossible.includes(digit)) {
+          expect(result.success, `Digit ${digit}`).toBe(false);
+          expect(result.stats.attempts, `Digit ${digit}`).toBe(0);
+          expect(result.error, `Digit ${digit}`).toMatch(/requested piece mix/);
+        } else {
+          expect(result.success, `Digit ${digit}`).toBe(true);
+          expect(distinctTypes(result.stats.typeCounts)).toBeGreaterThanOrEqual(pieceMix.minDistinctTypes ?? 0);
+          expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(pieceMix.maxCountSpread ?? Infinity);
+        }
+      }
+    }
+  });
+
+  it("should apply the mix to each digit of tileTimeGrid", () => {
+    const result = tileTimeGrid(10, 8, { seed: 42, pieceMix: { minDistinctTypes: 5 } });
+
+    expect(result.success).toBe(true);
+    const total = Object.values(result.stats.typeCounts).reduce((sum, n) => sum + n, 0);
+    expect(total).toBe(result.pieces.length);
+  });
+});
+
+describe("tileGrid exact-cover strategy", () => {
+  const uniform = (rows: number, cols: number) => Array.from({ length: rows }, () => Array(cols).fill(true));
+
+  it("should tile large uniform grids that defeat first-empty-cell backtracking", () => {
+    for (const [rows, cols] of [
+      [12, 40],
+      [20, 20],
+      [16, 64],
+    ]) {
+      const result = tileGrid(rows, cols, uniform(rows, cols), { seed: 42, strategy: "exact-cover" });
+
+      expect(result.success, `${rows}x${cols}`).toBe(true);
+      expect(result.grid.flat().every((cell) => cell !== null)).toBe(true);
+    }
+  });
+
+  it("should tile a 2-row strip", () => {
+    const result = tileGrid(2, 34, uniform(2, 34), { seed: 42, strategy: "exact-cover" });
+
+    expect(result.success).toBe(true);
+    expect(result.pieces).toHaveLength(17);
+  });
+
+  it("should tile every digit with lit/unlit boundaries respected", () => {
+    for (let digit = 0; digit <= 9; digit++) {
+      const mask = DIGIT_PATTERNS[digit];
+      const result = tileGrid(DIGIT_ROWS, DIGIT_COLS, mask, { seed: 42, strategy: "exact-cover" });
+
+      expect(result.success, `Digit ${digit}`).toBe(true);
+      for (const piece of result.pieces) {
+        for (const cell of piece.cells) {
+          expect(mask[cell.row][cell.col]).toBe(piece.isLit);
+        }
+      }
+    }
+  });
+
+  it("should be deterministic for a given seed", () => {
+    const a = tileGrid(12, 40, uniform(12, 40), { seed: 7, strategy: "exact-cover" });
+    const b = tileGrid(12, 40, uniform(12, 40), { seed: 7, strategy: "exact-cover" });
+
+    expect(a.pieces).toEqual(b.pieces);
+  });
+
+  it("should respect allowedTypes and pieceMix", () => {
+    const restricted = tileGrid(8, 8, uniform(8, 8), { seed: 3, strategy: "exact-cover", allowedTypes: ["T", "L"] });
+    expect(restricted.success).toBe(true);
+    expect(restricted.pieces.every((p) => p.type === "T" || p.type === "L")).toBe(true);
+
+    const mixed = tileDigit(0, { seed: 7, strategy: "exact-cover", pieceMix: { maxCountSpread: 1 } });
+    expect(mixed.success).toBe(true);
+    const counts = Object.values(mixed.stats.typeCounts);
+    expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(1);
+  });
+
+  it("should report an untileable mask", () => {
+    const result = tileGrid(2, 8, uniform(2, 8), { seed: 1, strategy: "exact-cover", allowedTypes: ["T"] });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/cannot be tiled/);
+  });
+});
+
+describe("tileGrid piece sets", () => {
+  const uniform = (rows: number, cols: number) => Array.from({ length: rows }, () => Array(cols).fill(true));
+
+  it("should tile with pentominoes", () => {
+    const result = tileGrid(6, 10, uniform(6, 10), { seed: 42, pieceSet: PENTOMINO_SET });
+
+    expect(result.success).toBe(true);
+    expect(result.pieces).toHaveLength(12);
+    expect(result.pieces.every((p) => p.cells.length === 5)).toBe(true);
+    expect(Object.keys(result.stats.typeCounts)).toEqual(PENTOMINO_SET.types);
+  });
+
+  it("should tile with pentominoes under exact cover", () => {
+    const result = tileGrid(10, 10, uniform(10, 10), { seed: 7, pieceSet: PENTOMINO_SET, strategy: "exact-cover" });
+
+    expect(result.success).toBe(true);
+    expect(result.grid.flat().every((cell) => cell !== null)).toBe(true);
+  });
+
+  it("should tile masks with trominoes", () => {
+    const mask = [
+      [true, true, true, false, false, false],
+      [true, true, true, false, false, false],
+      [true, true, true, false, false, false],
+    ];
+    const result = tileGrid(3, 6, mask, { seed: 1, pieceSet: TROMINO_SET });
+
+    expect(result.success).toBe(true);
+    for (const piece of result.pieces) {
+      for (const cell of piece.cells) {
+        expect(mask[cell.row][cell.col]).toBe(piece.isLit);
+      }
+    }
+  });
+
+  it("should tile with mixed piece sizes", () => {
+    const mixed = createPieceSet("mixed", [definePiece("D", "XX"), definePiece("T", "XXX\n.X.")]);
+    const result = tileGrid(5, 6, uniform(5, 6), { seed: 3, pieceSet: mixed, pieceMix: { minDistinctTypes: 2 } });
+
+    expect(result.success).toBe(true);
+    expect(result.stats.typeCounts.D * 2 + result.stats.typeCounts.T * 4).toBe(30);
+    expect(result.stats.typeCounts.T).toBeGreaterThan(0);
+  });
+
+  it("should explain when region sizes do not fit the piece set", () => {
+    const result = tileDigit(0, { seed: 1, pieceSet: PENTOMINO_SET });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/not a multiple of 5/);
+  });
+
+  it("should restrict types within the piece set", () => {
+    const result = tileGrid(6, 10, uniform(6, 10), { seed: 1, pieceSet: PENTOMINO_SET, forbiddenTypes: ["X"] });
+
+    expect(result.success).toBe(true);
+    expect(result.stats.typeCounts.X).toBe(0);
+  });
+
+  it("should count and sequence pentomino tilings", () => {
+    expect(countTilings(uniform(1, 10), { pieceSet: PENTOMINO_SET })).toBe(1);
+    expect(countTilings(uniform(3, 5), { pieceSet: PENTOMINO_SET })).toBe(
+      [...enumerateTilings(uniform(3, 5), { pieceSet: PENTOMINO_SET })].length
+    );
+
+    const result = tileGrid(6, 10, uniform(6, 10), { seed: 42, pieceSet: PENTOMINO_SET });
+    const sequence = sequencePieces(result);
+    expect(sequence.success).toBe(true);
+    expect(sequence.sequence).toHaveLength(12);
+  });
+});
+
+describe("tileGrid region labels", () => {
+  // A 4x4 unlit block, a lit 2x4 block and two custom 2x2 regions
+  const mask = [
+    [0, 0, 0, 0, 1, 1, 1, 1],
+    [0, 0, 0, 0, 1, 1, 1, 1],
+    [0, 0, 0, 0, 2, 2, 3, 3],
+    [0, 0, 0, 0, 2, 2, 3, 3],
+  ];
+
+  for (const strategy of ["backtrack", "exact-cover"] as const) {
+    it(`should keep every piece inside one region (${strategy})`, () => {
+      const result = tileGrid(4, 8, mask, { seed: 3, strategy });
+
+      expect(result.success).toBe(true);
+      for (const piece of result.pieces) {
+        expect(piece.cells.map((cell) => mask[cell.row][cell.col])).toEqual(Array(4).fill(piece.label));
+      }
+      expect(result.pieces.filter((piece) => piece.label >= 2).map((piece) => piece.type)).toEqual(["O", "O"]);
+    });
+  }
+
+  it("should fail fast when a region cannot be tiled", () => {
+    const result = tileGrid(2, 4, [[2, 2, 3, 3], [2, 2, 3, 3]], { seed: 1, forbiddenTypes: ["O"] });
+
+    expect(result.success).toBe(false);
+    expect(result.stats.attempts).toBe(0);
+  });
+});
+
+describe("countTilings", () => {
+  const uniform = (rows: number, cols: number) => Array.from({ length: rows }, () => Array(cols).fill(true));
+
+  it("should count the tilings of small rectangles", () => {
+    expect(countTilings(uniform(1, 4))).toBe(1);
+    expect(countTilings(uniform(2, 2))).toBe(1);
+    expect(countTilings(uniform(2, 4))).toBe(4);
+    expect(countTilings(uniform(4, 4))).toBe(117);
+  });
+
+  it("should return 0 for untileable masks", () => {
+    expect(countTilings(uniform(1, 5))).toBe(0);
+    expect(countTilings(uniform(2, 8), { allowedTypes: ["T"] })).toBe(0);
+  });
+
+  it("should only count tilings that respect the lit/unlit boundary", () => {
+    const mask = [
+      [true, true, false, false],
+      [true, true, false, false],
+    ];
+    // Each 2x2 half can only hold one O piece
+    expect(countTilings(mask)).toBe(1);
+  });
+
+  it("should respect allowed piece types", () => {
+    expect(countTilings(uniform(4, 4), { allowedTypes: ["O"] })).toBe(1);
+    expect(countTilings(uniform(4, 4), { allowedTypes: ["I"] })).toBe(2);
+  });
+
+  it("should stop at the limit", () => {
+    expect(countTilings(uniform(4, 4), { limit: 10 })).toBe(10);
+    expect(countTilings(uniform(4, 4), { limit: 1000 })).toBe(117);
+  });
+
+  it("should count every digit pattern", () => {
+    for (let digit = 0; digit <= 9; digit++) {
+      expect(countTilings(DIGIT_PATTERNS[digit]), `Digit ${digit}`).toBeGreaterThan(100_000);
+    }
+  });
+});
+
+describe("enumerateTilings", () => {
+  const uniform = (rows: number, cols: number) => Array.from({ length: rows }, () => Array(cols).fill(true));
+
+  it("should yield as many tilings as countTilings reports", () => {
+    const mask = uniform(4, 6);
+    expect([...enumerateTilings(mask)]).toHaveLength(countTilings(mask));
+  });
+
+  it("should yield distinct, complete tilings", () => {
+    const seen = new Set<string>();
+    for (const result of enumerateTilings(uniform(4, 4))) {
+      expect(result.success).toBe(true);
+      expect(result.grid.flat().every((cell) => cell !== null)).toBe(true);
+
+      const key = result.pieces.map((p) => `${p.type}${p.rotationIndex}@${p.anchor.row},${p.anchor.col}`).join(" ");
+      expect(seen.has(key)).toBe(false);
+      seen.add(key);
+    }
+    expect(seen.size).toBe(117);
+  });
+
+  it("should yield digit tilings lazily, respecting the mask", () => {
+    const mask = DIGIT_PATTERNS[8];
+    let yielded = 0;
+    for (const result of enumerateTilings(mask)) {
+      for (const piece of result.pieces) {
+        for (const cell of piece.cells) {
+          expect(mask[cell.row][cell.col]).toBe(piece.isLit);
+        }
+      }
+      if (++yielded === 20) break;
+    }
+    expect(yielded).toBe(20);
+  });
+
+  it("should report per-type counts and cumulative attempts", () => {
+    const [first, second] = enumerateTilings(uniform(4, 4));
+
+    expect(Object.values(first.stats.typeCounts).reduce((sum, n) => sum + n, 0)).toBe(4);
+    expect(second.stats.attempts).toBeGreaterThan(first.stats.attempts);
+  });
+
+  it("should yield nothing for untileable masks", () => {
+    expect([...enumerateTilings(uniform(1, 5))]).toEqual([]);
+  });
+});
+
 describe("tileDigit", () => {
   it("should successfully tile digit 0", () => {
     const result = tileDigit(0, { seed: 42 });
@@ -203,6 +720,72 @@ describe("tileTimeGrid", () => {
     expect(r1.pieces.map((p) => p.type)).toEqual(r2.pieces.map((p) => p.type));
   });
 
+  it("should search the top strip by seed like any other region", () => {
+    // The strip is the TIME_ROWS - DIGIT_ROWS rows above the digits
+    const topStrip = (seed: number) =>
+      tileTimeGrid(12, 34, { seed })
+        .pieces.filter((p) => p.cells.every((c) => c.row < TIME_ROWS - DIGIT_ROWS))
+        .map((p) => ({ type: p.type, anchor: p.anchor }));
+
+    expect(topStrip(1).some((p) => p.type !== "O")).toBe(true);
+    expect(topStrip(2)).not.toEqual(topStrip(1));
+  });
+
+  it("should tile every font into a grid of timeGridSize", () => {
+    expect(timeGridSize()).toEqual({ rows: TIME_ROWS, cols: TIME_COLS });
+    for (const font of [SEVEN_SEGMENT_FONT, ROUNDED_FONT, COMPACT_FONT]) {
+      const result = tileTimeGrid(20, 48, { seed: 7, font });
+      const { rows, cols } = timeGridSize({ font });
+
+      expect(result.success, font.name).toBe(true);
+      expect(rows, font.name).toBe(font.rows + TIME_ROWS - DIGIT_ROWS);
+      expect(cols, font.name).toBe(font.cols * 4 + TIME_DIGIT_GAP_COLS * 2 + TIME_COLON_GAP_COLS);
+      expect(result.grid.map((row) => row.map((piece) => piece?.isLit)), font.name).toEqual(
+        timeGridMask(20, 48, { font })
+      );
+    }
+  });
+
+  it("should tile HH:MM:SS when seconds are given", () => {
+    const result = tileTimeGrid(12, 34, { seed: 42, seconds: 56 });
+    const mask = timeGridMask(12, 34, { seconds: 56 });
+
+    expect(result.success).toBe(true);
+    expect(result.grid[0]).toHaveLength(TIME_COLS + TIME_COLON_GAP_COLS + DIGIT_COLS * 2 + TIME_DIGIT_GAP_COLS);
+    expect(timeGridSize({ seconds: 0 }).cols).toBe(result.grid[0].length);
+    expect(result.grid.map((row) => row.map((piece) => piece?.isLit))).toEqual(mask);
+    // HH:MM keeps its place; the seconds follow it
+    expect(mask.map((row) => row.slice(0, TIME_COLS))).toEqual(timeGridMask(12, 34));
+  });
+
+  it("should tile 12-hour time with an AM / PM marker in every font", () => {
+    for (const font of [BLOCK_FONT, SEVEN_SEGMENT_FONT, ROUNDED_FONT, COMPACT_FONT]) {
+      const options = { seed: 7, font, meridiem: "PM", leadingZero: false } as const;
+      const result = tileTimeGrid(9, 45, options);
+
+      expect(result.success, font.name).toBe(true);
+      expect(result.grid.map((row) => row.map((piece) => piece?.isLit)), font.name).toEqual(
+        timeGridMask(9, 45, options)
+      );
+    }
+  });
+
+  it("should tile the colon as its own region in every font", () => {
+    for (const font of [BLOCK_FONT, SEVEN_SEGMENT_FONT, ROUNDED_FONT, COMPACT_FONT]) {
+      const result = tileTimeGrid(12, 34, { seed: 3, font, seconds: 56, colon: true });
+      const labels = timeGridMask(12, 34, { font, seconds: 56, colon: true }).map((row) => row.map(maskLabel));
+
+      expect(result.success, font.name).toBe(true);
+      expect(result.grid.map((row) => row.map((piece) => piece?.label)), font.name).toEqual(labels);
+      expect(result.pieces.filter((piece) => piece.label === COLON_LABEL), font.name).toHaveLength(4);
+    }
+  });
+
+  it("should throw for invalid seconds", () => {
+    expect(() => tileTimeGrid(12, 34, { seconds: 60 })).toThrow("Invalid seconds: 60. Must be an integer 0-59.");
+    expect(() => tileTimeGrid(12, 34, { seconds: 1.5 })).toThrow("Invalid seconds: 1.5. Must be an integer 0-59.");
+  });
+
   it("should throw for invalid hours/minutes", () => {
     expect(() => tileTimeGrid(-1, 0)).toThrow();
     expect(() => tileTimeGrid(24, 0)).toThrow();
@@ -226,7 +809,373 @@ describe("tileTimeGrid", () => {
     expect(() => tileTimeGrid(38, 30)).toThrow("Invalid hours: 38. Must be an integer 0-23.");
   });
 
+  it("should pass piece type restrictions to every region", () => {
+    const result = tileTimeGrid(11, 11, { seed: 42, allowedTypes: ["I", "O"] });
+
+    expect(result.success).toBe(true);
+    expect(result.pieces.every((p) => p.type === "I" || p.type === "O")).toBe(true);
+  });
+
+  it("should propagate the error from a region that fails", () => {
+    const result = tileTimeGrid(8, 8, { seed: 42, forbiddenTypes: ["O"], maxAttempts: 1000 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+
   it("should throw for hours > 99 even with extendedHours option", () => {
     expect(() => tileTimeGrid(100, 0, { extendedHours: true })).toThrow("Invalid hours: 100. Must be an integer 0-99.");
   });
+
+  describe("singlePass", () => {
+    it("should tile the whole field with lit pieces exactly on the digits", () => {
+      const result = tileTimeGrid(12, 34, { seed: 42, singlePass: true });
+      const stitched = tileTimeGrid(12, 34, { seed: 42 });
+
+      expect(result.success).toBe(true);
+      expect(result.grid.flat().every((cell) => cell !== null)).toBe(true);
+      expect(result.pieces.length * 4).toBe(TIME_ROWS * TIME_COLS);
+
+      // Same lit/unlit layout as the stitched field
+      for (let r = 0; r < TIME_ROWS; r++) {
+        for (let c = 0; c < TIME_COLS; c++) {
+          expect(result.grid[r][c]!.isLit, `Cell (${r}, ${c})`).toBe(stitched.grid[r][c]!.isLit);
+        }
+      }
+    });
+
+    it("should let background pieces cross region seams", () => {
+      // Stitched regions: the top strip ends at row 2, digit 0 ends at column 6
+      const crossesSeam = (cells: { row: number; col: number }[]) =>
+        cells.some((c) => c.row < 2) !== cells.every((c) => c.row < 2) ||
+        (cells.some((c) => c.row >= 2 && c.col < 6) && cells.some((c) => c.row >= 2 && c.col >= 6));
+
+      const stitched = tileTimeGrid(10, 10, { seed: 42 });
+      expect(stitched.pieces.some((p) => crossesSeam(p.cells))).toBe(false);
+
+      const crossing = [1, 2, 3, 4, 5].filter(
+        (seed) => tileTimeGrid(10, 10, { seed, singlePass: true }).pieces.some((p) => !p.isLit && crossesSeam(p.cells))
+      );
+      expect(crossing.length).toBeGreaterThan(0);
+    });
+
+    it("should be reproducible with the same seed", () => {
+      const r1 = tileTimeGrid(23, 59, { seed: "test-seed", singlePass: true });
+      const r2 = tileTimeGrid(23, 59, { seed: "test-seed", singlePass: true });
+
+      expect(r1.pieces).toEqual(r2.pieces);
+    });
+
+    it("should honour gap and extended-hour options", () => {
+      const result = tileTimeGrid(88, 58, { seed: 7, singlePass: true, extendedHours: true, digitGapCols: 4, colonGapCols: 8 });
+
+      expect(result.success).toBe(true);
+      expect(result.grid[0]).toHaveLength(DIGIT_COLS * 4 + 4 * 2 + 8);
+    });
+  });
+});
+
+describe("retileTimeGrid", () => {
+  // Columns of the last minute digit in the default layout
+  const lastDigitCol = DIGIT_COLS * 3 + TIME_DIGIT_GAP_COLS * 2 + TIME_COLON_GAP_COLS;
+  const inLastDigit = (p: { cells: { row: number; col: number }[] }) =>
+    p.cells.every((c) => c.row >= TIME_ROWS - DIGIT_ROWS && c.col >= lastDigitCol);
+  const inTopStrip = (p: { cells: { row: number; col: number }[] }) =>
+    p.cells.every((c) => c.row < TIME_ROWS - DIGIT_ROWS);
+  // Attempts to solve a top strip segment over a digit and the gap before it
+  const stripAttempts = (seed: number) => {
+    const cols = TIME_DIGIT_GAP_COLS + DIGIT_COLS;
+    const mask = Array.from({ length: TIME_ROWS - DIGIT_ROWS }, () => Array(cols).fill(false));
+    return tileGrid(TIME_ROWS - DIGIT_ROWS, cols, mask, { seed, strategy: "exact-cover" }).stats.attempts;
+  };
+  // The top strip segment over the last digit and the gap before it
+  const aboveLastDigit = (p: { cells: { row: number; col: number }[] }) =>
+    inTopStrip(p) && p.cells.every((c) => c.col >= lastDigitCol - TIME_DIGIT_GAP_COLS);
+
+  it("should keep the pieces of unchanged regions with the same IDs", () => {
+    const previous = tileTimeGrid(12, 34, { seed: 42 });
+    const result = retileTimeGrid(previous, 12, 35, { seed: 42 });
+
+    expect(result.success).toBe(true);
+    expect(result.grid.flat().every((cell) => cell !== null)).toBe(true);
+
+    const kept = previous.pieces.filter((p) => !inLastDigit(p) && !aboveLastDigit(p));
+    expect(result.pieces.filter((p) => !inLastDigit(p) && !aboveLastDigit(p))).toEqual(kept);
+  });
+
+  it("should solve the top strip again only above the changed digit", () => {
+    const previous = tileTimeGrid(12, 34, { seed: 42 });
+    const result = retileTimeGrid(previous, 12, 35, { seed: 42 });
+    const previousIds = new Set(previous.pieces.map((p) => p.id));
+    const keptStrip = (p: (typeof result.pieces)[number]) => inTopStrip(p) && !aboveLastDigit(p);
+
+    // The strip over the unchanged digits stays on screen
+    expect(result.pieces.filter(keptStrip).length).toBeGreaterThan(0);
+    expect(result.pieces.filter(keptStrip)).toEqual(previous.pieces.filter(keptStrip));
+    // Settled pieces above the new digit would block its drops (see sequenceChangedPieces)
+    expect(result.pieces.filter(aboveLastDigit).some((p) => previousIds.has(p.id))).toBe(false);
+    expect(result.pieces.filter((p) => !previousIds.has(p.id)).every((p) => inLastDigit(p) || aboveLastDigit(p))).toBe(
+      true
+    );
+    expect(sequenceChangedPieces(result, previous).success).toBe(true);
+  });
+
+  it("should solve a changed digit as a fresh solve would, with new IDs", () => {
+    const previous = tileTimeGrid(12, 34, { seed: 42 });
+    const result = retileTimeGrid(previous, 12, 35, { seed: 42 });
+    const fresh = tileTimeGrid(12, 35, { seed: 42 });
+
+    const strip = (p: { type: string; cells: unknown; label: number }) => ({ type: p.type, cells: p.cells, label: p.label });
+    const changed = result.pieces.filter(inLastDigit);
+    expect(changed.map(strip)).toEqual(fresh.pieces.filter(inLastDigit).map(strip));
+
+    const previousIds = new Set(previous.pieces.map((p) => p.id));
+    expect(changed.some((p) => previousIds.has(p.id))).toBe(false);
+    expect(new Set(result.pieces.map((p) => p.id)).size).toBe(result.pieces.length);
+  });
+
+  it("should only spend attempts on the changed digit and the strip above it", () => {
+    const previous = tileTimeGrid(12, 34, { seed: 42 });
+    const result = retileTimeGrid(previous, 12, 35, { seed: 42 });
+
+    // The last digit is digit 3, below top strip segment 4
+    expect(result.stats.attempts).toBe(
+      tileDigit(5, { seed: regionSeed(42, "digit", 3) }).stats.attempts + stripAttempts(regionSeed(42, "topStrip", 4))
+    );
+    expect(result.stats.typeCounts).toEqual(tileTimeGrid(12, 35, { seed: 42 }).stats.typeCounts);
+  });
+
+  it("should only re-solve the last seconds digit from one second to the next", () => {
+    const lastSecondCol = TIME_COLS + TIME_COLON_GAP_COLS + DIGIT_COLS + TIME_DIGIT_GAP_COLS;
+    const inLastSecond = (p: { cells: { row: number; col: number }[] }) =>
+      p.cells.every((c) => c.row >= TIME_ROWS - DIGIT_ROWS && c.col >= lastSecondCol);
+    const previous = tileTimeGrid(12, 34, { seed: 42, seconds: 56 });
+    const result = retileTimeGrid(previous, 12, 34, { seed: 42, seconds: 57 });
+
+    expect(result.success).toBe(true);
+    const aboveLastSecond = (p: (typeof result.pieces)[number]) =>
+      inTopStrip(p) && p.cells.every((c) => c.col >= lastSecondCol - TIME_DIGIT_GAP_COLS);
+    const kept = (p: (typeof result.pieces)[number]) => !inLastSecond(p) && !aboveLastSecond(p);
+    expect(result.pieces.filter(kept)).toEqual(previous.pieces.filter(kept));
+    // The last seconds digit is digit 5, below top strip segment 7
+    expect(result.stats.attempts).toBe(
+      tileDigit(7, { seed: regionSeed(42, "digit", 5) }).stats.attempts + stripAttempts(regionSeed(42, "topStrip", 7))
+    );
+  });
+
+  it("should only replace pieces in the seconds columns on a seconds tick", () => {
+    const secondsCol = TIME_COLS + TIME_COLON_GAP_COLS;
+    const inSeconds = (p: { cells: { row: number; col: number }[] }) => p.cells.every((c) => c.col >= secondsCol);
+
+    for (const [from, to] of [
+      [56, 57],
+      [59, 0],
+    ]) {
+      const previous = tileTimeGrid(12, 34, { seed: 42, seconds: from });
+      const result = retileTimeGrid(previous, 12, 34, { seed: 42, seconds: to });
+      const previousIds = new Set(previous.pieces.map((p) => p.id));
+      const replaced = result.pieces.filter((p) => !previousIds.has(p.id));
+
+      expect(replaced.length).toBeGreaterThan(0);
+      expect(replaced.every(inSeconds)).toBe(true);
+      expect(result.pieces.filter((p) => !inSeconds(p))).toEqual(previous.pieces.filter((p) => !inSeconds(p)));
+      expect(sequenceChangedPieces(result, previous).success).toBe(true);
+    }
+  });
+
+  it("should reuse everything when the time is unchanged", () => {
+    const previous = tileTimeGrid(9, 41, { seed: 7 });
+    const result = retileTimeGrid(previous, 9, 41, { seed: 8 });
+
+    expect(result.pieces).toEqual(previous.pieces);
+    expect(result.stats.attempts).toBe(0);
+  });
+
+  it("should replace every digit when all of them change", () => {
+    const previous = tileTimeGrid(19, 59, { seed: 1 });
+    const result = retileTimeGrid(previous, 20, 0, { seed: 2 });
+    const previousIds = new Set(previous.pieces.map((p) => p.id));
+
+    expect(result.success).toBe(true);
+    expect(result.pieces.filter((p) => p.isLit).some((p) => previousIds.has(p.id))).toBe(false);
+    // The unlit gaps never change (the top strip above the digits is solved again)
+    expect(result.pieces.filter((p) => previousIds.has(p.id)).every((p) => !p.isLit)).toBe(true);
+  });
+
+  it("should solve everything again for another layout or singlePass", () => {
+    const previous = tileTimeGrid(12, 34, { seed: 42 });
+
+    const wider = retileTimeGrid(previous, 12, 34, { seed: 42, colonGapCols: 8 });
+    expect(wider.pieces).toEqual(tileTimeGrid(12, 34, { seed: 42, colonGapCols: 8 }).pieces);
+
+    const singlePass = retileTimeGrid(previous, 12, 35, { seed: 42, singlePass: true });
+    expect(singlePass.pieces).toEqual(tileTimeGrid(12, 35, { seed: 42, singlePass: true }).pieces);
+  });
+
+  it("should match the async variant", async () => {
+    const previous = tileTimeGrid(12, 34, { seed: 42 });
+
+    expect((await retileTimeGridAsync(previous, 12, 35, { seed: 42 })).pieces).toEqual(
+      retileTimeGrid(previous, 12, 35, { seed: 42 }).pieces
+    );
+  });
+});
+
+describe("tileText", () => {
+  /** Lit cells of a text result, as a mask */
+  const litMask = (result: ReturnType<typeof tileText>) => result.grid.map((row) => row.map((piece) => piece?.isLit));
+
+  it.each(["LUNCH", "HAPPY NEW YEAR", "GO LIVE!"])("should tile %j into one grid", (text) => {
+    const result = tileText(text, { seed: 42 });
+
+    expect(result.success).toBe(true);
+    expect(result.grid).toHaveLength(GLYPH_ROWS);
+    expect(result.grid[0]).toHaveLength(text.length * GLYPH_COLS + (text.length - 1) * TIME_DIGIT_GAP_COLS);
+    expect(result.grid.flat().every((piece) => piece !== null)).toBe(true);
+    expect(new Set(result.pieces.map((p) => p.id)).size).toBe(result.pieces.length);
+  });
+
+  it("should light the glyph cells and leave the gaps unlit", () => {
+    const result = tileText("Hi", { seed: 1 });
+    const gap = Array(TIME_DIGIT_GAP_COLS).fill(false);
+
+    expect(litMask(result)).toEqual(
+      Array.from({ length: GLYPH_ROWS }, (_, row) => [...glyphMask("H")[row], ...gap, ...glyphMask("I")[row]])
+    );
+  });
+
+  it("should draw digits in the given font", () => {
+    const result = tileText("42", { seed: 3, font: COMPACT_FONT });
+    const gap = Array(TIME_DIGIT_GAP_COLS).fill(false);
+
+    expect(result.success).toBe(true);
+    expect(litMask(result)).toEqual(
+      Array.from({ length: COMPACT_FONT.rows }, (_, row) => [
+        ...COMPACT_FONT.glyphs[4][row],
+        ...gap,
+        ...COMPACT_FONT.glyphs[2][row],
+      ])
+    );
+    expect(() => tileText("HI", { font: COMPACT_FONT })).toThrow('No glyph for character "H" in font compact');
+  });
+
+  it("should honor letterGapCols", () => {
+    expect(tileText("GO", { seed: 1, letterGapCols: 0 }).grid[0]).toHaveLength(GLYPH_COLS * 2);
+    expect(tileText("GO", { seed: 1, letterGapCols: 4 }).grid[0]).toHaveLength(GLYPH_COLS * 2 + 4);
+    expect(tileText("GO", { seed: 1, letterGapCols: 1 }).success).toBe(false);
+    expect(() => tileText("GO", { letterGapCols: -2 })).toThrow(
+      "Invalid letterGapCols: -2. Must be a non-negative integer."
+    );
+  });
+
+  it("should solve glyph i with the seed of digit i", () => {
+    const text = tileText("12", { seed: 42 });
+    const digit = tileDigit(2, { seed: regionSeed(42, "digit", 1) });
+    const offset = GLYPH_COLS + TIME_DIGIT_GAP_COLS;
+
+    const secondGlyph = text.pieces
+      .filter((p) => p.anchor.col >= offset)
+      .map((p) => ({ type: p.type, rotationIndex: p.rotationIndex, row: p.anchor.row, col: p.anchor.col - offset }));
+    expect(secondGlyph).toEqual(
+      digit.pieces.map((p) => ({ type: p.type, rotationIndex: p.rotationIndex, row: p.anchor.row, col: p.anchor.col }))
+    );
+  });
+
+  it("should be reproducible and sequence like a time grid", () => {
+    const r1 = tileText("GO LIVE", { seed: "launch" });
+    const r2 = tileText("GO LIVE", { seed: "launch" });
+
+    expect(r1.pieces).toEqual(r2.pieces);
+    expect(sequencePieces(r1).success).toBe(true);
+  });
+
+  it("should throw for empty text and characters without a glyph", () => {
+    expect(() => tileText("")).toThrow("Text must have at least one character");
+    expect(() => tileText("50€")).toThrow('No glyph for character "€"');
+  });
+
+  it("should solve the same tiling asynchronously", async () => {
+    const result = await tileTextAsync("LUNCH", { seed: 7 });
+
+    expect(result.pieces).toEqual(tileText("LUNCH", { seed: 7 }).pieces);
+  });
+});
+
+describe("tileGridAsync", () => {
+  it("should return the same result as tileGrid", async () => {
+    const mask = Array.from({ length: 4 }, () => Array(8).fill(true));
+    const sync = tileGrid(4, 8, mask, { seed: 42 });
+    const result = await tileGridAsync(4, 8, mask, { seed: 42, yieldEvery: 20 });
+
+    expect(result.success).toBe(true);
+    expect(result.pieces).toEqual(sync.pieces);
+    expect(result.stats.attempts).toBe(sync.stats.attempts);
+  });
+
+  it("should report progress every yieldEvery attempts", async () => {
+    const progress: TileProgress[] = [];
+    const result = await tileGridAsync(10, 6, Array.from({ length: 10 }, () => Array(6).fill(true)), {
+      seed: 1,
+      yieldEvery: 10,
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(result.success).toBe(true);
+    expect(progress.length).toBe(Math.floor(result.stats.attempts / 10));
+    expect(progress[0].attempts).toBe(10);
+    expect(progress.every((p) => p.depth >= 0 && p.depth <= 15)).toBe(true);
+  });
+
+  it("should reject when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const mask = Array.from({ length: 4 }, () => Array(4).fill(true));
+
+    await expect(tileGridAsync(4, 4, mask, { seed: 1, signal: controller.signal })).rejects.toThrow();
+  });
+
+  it("should stop solving when aborted mid-way", async () => {
+    const controller = new AbortController();
+    let reports = 0;
+    // A 2-row strip of T pieces searches for a long time, so only the abort can end it early
+    const mask = Array.from({ length: 2 }, () => Array(40).fill(true));
+    const solve = tileGridAsync(2, 40, mask, {
+      seed: 42,
+      allowedTypes: ["T"],
+      yieldEvery: 100,
+      signal: controller.signal,
+      onProgress: () => {
+        if (++reports === 3) controller.abort();
+      },
+    });
+
+    await expect(solve).rejects.toThrow();
+    expect(reports).toBe(3);
+  });
+});
+
+describe("tileTimeGridAsync", () => {
+  it("should return the same tiling as tileTimeGrid", async () => {
+    const sync = tileTimeGrid(12, 34, { seed: 42 });
+    const result = await tileTimeGridAsync(12, 34, { seed: 42 });
+
+    expect(result.success).toBe(true);
+    expect(result.pieces).toEqual(sync.pieces);
+  });
+
+  it("should report cumulative progress across regions", async () => {
+    const progress: TileProgress[] = [];
+    const result = await tileTimeGridAsync(12, 34, { seed: 42, yieldEvery: 50, onProgress: (p) => progress.push(p) });
+
+    expect(result.success).toBe(true);
+    expect(progress.length).toBeGreaterThan(0);
+    for (let i = 1; i < progress.length; i++) {
+      expect(progress[i].attempts).toBeGreaterThan(progress[i - 1].attempts);
+    }
+    expect(progress[progress.length - 1].attempts).toBeLessThanOrEqual(result.stats.attempts);
+  });
+
+  it("should reject invalid times", async () => {
+    await expect(tileTimeGridAsync(24, 0)).rejects.toThrow("Invalid hours: 24. Must be an integer 0-23.");
+  });
 });
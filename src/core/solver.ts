@@ -1,7 +1,36 @@
-import type { TileResult, TileStats, TileOptions, DigitMask, PlacedTetromino } from "./types";
-import { Grid, resetPieceIdCounter } from "./grid";
-import { TETROMINOES, TETROMINO_TYPES } from "./tetrominoes";
-import { DIGIT_PATTERNS, DIGIT_ROWS, DIGIT_COLS } from "./digits";
+import type {
+  TileResult,
+  TileStats,
+  TileOptions,
+  DigitMask,
+  PlacedTetromino,
+  PieceType,
+  PieceSet,
+  Polyomino,
+  PieceMixOptions,
+  TimeGridOptions,
+  TextOptions,
+  Font,
+  GlyphLayout,
+  TimeLayoutOptions,
+  LayoutItem,
+  TileProgress,
+  AsyncTileOptions,
+  Cell,
+  EnumerateOptions,
+  CountTilingsOptions,
+  MaskAnalysis,
+  Random,
+} from "./types";
+import { Grid } from "./grid";
+import { TETROMINO_SET, getAbsoluteCells, resolveAllowedTypes } from "./tetrominoes";
+import { pieceCellUnit } from "./pieces";
+import { DIGIT_PATTERNS, DIGIT_ROWS, DIGIT_COLS, maskLabel } from "./digits";
+import { BLOCK_FONT, glyphMask } from "./fonts";
+import { colonMask, meridiemMask } from "./glyphs";
+import { layoutGlyphs } from "./layout";
+import { analyzeMask } from "./analyze";
+import { mulberry32, shuffle, resolveSeed, regionSeed, retrySeed } from "./random";
 
 /** Default spacing (in columns) between digits inside a unified HH:MM grid. */
 export const TIME_DIGIT_GAP_COLS = 2;
@@ -12,71 +41,37 @@ export const TIME_COLON_GAP_COLS = 4;
 /** Extra unlit rows inserted above the HH:MM digits in the unified time grid. */
 const TIME_TOP_UNLIT_ROWS = 2;
 
-/** Unified time grid dimensions (HH:MM rendered into one solver grid). */
+/**
+ * Unified time grid dimensions (HH:MM rendered into one solver grid) with the
+ * block font and default gaps; timeGridSize gives them for other layouts.
+ */
 export const TIME_ROWS = DIGIT_ROWS + TIME_TOP_UNLIT_ROWS;
 export const TIME_COLS = DIGIT_COLS * 4 + TIME_DIGIT_GAP_COLS * 2 + TIME_COLON_GAP_COLS;
 
 /** Default maximum attempts before giving up */
 const DEFAULT_MAX_ATTEMPTS = 1_000_000;
 
-/**
- * Simple seeded random number generator (Mulberry32)
- */
-class SeededRandom {
-  private state: number;
-
-  constructor(seed: number) {
-    this.state = seed;
-  }
-
-  /** Get next random number in [0, 1) */
-  next(): number {
-    let t = (this.state += 0x6d2b79f5);
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  }
+/** Default number of retries with a derived seed after running out of budget (opt-in) */
+const DEFAULT_MAX_RETRIES = 0;
 
-  /** Shuffle an array in place */
-  shuffle<T>(array: T[]): T[] {
-    const result = [...array];
-    for (let i = result.length - 1; i > 0; i--) {
-      const j = Math.floor(this.next() * (i + 1));
-      [result[i], result[j]] = [result[j], result[i]];
-    }
-    return result;
-  }
-}
+/** Attempts between clock reads when a time budget is set */
+const CLOCK_CHECK_EVERY = 256;
 
-/** Convert seed (number or string) to a number */
-function seedToNumber(seed: number | string | undefined): number {
-  if (seed === undefined) {
-    return Date.now();
-  }
-  if (typeof seed === "number") {
-    return seed;
-  }
-  // Hash string to number
-  let hash = 0;
-  for (let i = 0; i < seed.length; i++) {
-    hash = (hash << 5) - hash + seed.charCodeAt(i);
-    hash |= 0;
-  }
-  return hash >>> 0;
-}
+/** Default number of attempts between event loop yields in the async API */
+const DEFAULT_YIELD_EVERY = 10_000;
 
-/** Generate all possible (tetromino, rotationIndex) combinations */
+/** Generate all possible (piece, rotationIndex) combinations */
 interface Placement {
-  tetrominoType: (typeof TETROMINO_TYPES)[number];
+  piece: Polyomino;
   rotationIndex: number;
 }
 
-function getAllPlacements(): Placement[] {
+function getAllPlacements(pieceSet: PieceSet, types: PieceType[] = pieceSet.types): Placement[] {
   const placements: Placement[] = [];
-  for (const type of TETROMINO_TYPES) {
-    const tetromino = TETROMINOES[type];
-    for (let rotationIndex = 0; rotationIndex < tetromino.rotations.length; rotationIndex++) {
-      placements.push({ tetrominoType: type, rotationIndex });
+  for (const type of types) {
+    const piece = pieceSet.pieces[type];
+    for (let rotationIndex = 0; rotationIndex < piece.rotations.length; rotationIndex++) {
+      placements.push({ piece, rotationIndex });
     }
   }
   return placements;
@@ -84,45 +79,123 @@ function getAllPlacements(): Placement[] {
 
 /** Solver state for tracking progress */
 interface SolverState {
+  /** Attempts and backtracks are totals over all tries */
   attempts: number;
   backtracks: number;
-  maxAttempts: number;
+  /** Attempt count at which the current try gives up */
+  attemptLimit: number;
+  /** performance.now() at which the current try gives up (Infinity = no time budget) */
+  deadline: number;
+  /** Attempt count at which the clock is read next */
+  nextClockCheckAt: number;
+  /** Which budget ended the current try, if any */
+  exhausted: "attempts" | "duration" | null;
+  /** Piece types the solver may place */
+  types: PieceType[];
+  /** Pieces placed so far, per type */
+  typeCounts: Record<PieceType, number>;
+  /** Cells not yet covered by a piece */
+  emptyCells: number;
+  /** Cell count of the smallest allowed piece */
+  minPieceCells: number;
+  /** Every region must hold a multiple of this many cells (4 for tetrominoes) */
+  cellUnit: number;
+  /** Pieces currently placed */
+  depth: number;
+  pieceMix?: PieceMixOptions;
+  /** Attempt count at which the solver next yields a progress snapshot */
+  nextYieldAt: number;
+  yieldEvery: number;
 }
 
 /**
- * For a given tetromino rotation, find all anchor positions that would
- * cause the piece to cover the target cell.
+ * A resumable solve: yields progress snapshots and returns the final result.
+ * The sync API runs it to completion; the async API yields to the event loop
+ * between snapshots.
  */
-function getAnchorsToCoverCell(
-  tetromino: (typeof TETROMINOES)[keyof typeof TETROMINOES],
-  rotationIndex: number,
-  targetCell: { row: number; col: number }
-): { row: number; col: number }[] {
-  const rotation = tetromino.rotations[rotationIndex];
-  const anchors: { row: number; col: number }[] = [];
-
-  // For each cell in the rotation, calculate what anchor would place that cell at targetCell
-  for (const relativeCell of rotation) {
-    anchors.push({
-      row: targetCell.row - relativeCell.row,
-      col: targetCell.col - relativeCell.col,
-    });
+type SolveSteps = Generator<TileProgress, TileResult, void>;
+
+/** Create a per-type counter with every type at zero */
+function emptyTypeCounts(types: PieceType[] = TETROMINO_SET.types): Record<PieceType, number> {
+  return Object.fromEntries(types.map((type) => [type, 0]));
+}
+
+/** Count placed pieces per type */
+function countTypes(pieces: PlacedTetromino[], types: PieceType[]): Record<PieceType, number> {
+  const counts = emptyTypeCounts(types);
+  for (const piece of pieces) {
+    counts[piece.type]++;
   }
+  return counts;
+}
 
-  return anchors;
+/** Whether the current try has used up its attempt or time budget */
+function isOutOfBudget(state: SolverState): boolean {
+  if (state.exhausted) return true;
+  if (state.attempts >= state.attemptLimit) {
+    state.exhausted = "attempts";
+  } else if (state.attempts >= state.nextClockCheckAt) {
+    // Reading the clock on every attempt would dominate the hot path
+    state.nextClockCheckAt = state.attempts + CLOCK_CHECK_EVERY;
+    if (performance.now() >= state.deadline) state.exhausted = "duration";
+  }
+  return state.exhausted !== null;
 }
 
 /**
- * Backtracking solver for tiling a grid with tetrominoes.
+ * Check whether the piece mix target can still be reached.
+ * Counts only grow, so once the grid is full this is an exact check;
+ * before that it prunes branches that can no longer catch up.
  */
-function backtrack(grid: Grid, placements: Placement[], random: SeededRandom, state: SolverState): boolean {
+function canMeetPieceMix(state: SolverState): boolean {
+  const mix = state.pieceMix;
+  if (!mix) return true;
+
+  // Upper bound: every remaining piece is the smallest one
+  const remainingPieces = Math.floor(state.emptyCells / state.minPieceCells);
+
+  // Plain loops: this runs after every placement, so avoid allocating
+  let distinct = 0;
+  let maxCount = 0;
+  for (const type of state.types) {
+    const count = state.typeCounts[type];
+    if (count > 0) distinct++;
+    if (count > maxCount) maxCount = count;
+  }
+
+  if (mix.minDistinctTypes !== undefined) {
+    const unused = state.types.length - distinct;
+    if (distinct + Math.min(unused, remainingPieces) < mix.minDistinctTypes) return false;
+  }
+
+  if (mix.maxCountSpread !== undefined) {
+    // Every type must reach at least (maxCount - spread) with the pieces that are left
+    let needed = 0;
+    for (const type of state.types) {
+      needed += Math.max(0, maxCount - mix.maxCountSpread - state.typeCounts[type]);
+    }
+    if (needed > remainingPieces) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Backtracking solver for tiling a grid with the pieces of a piece set.
+ */
+function* backtrack(
+  grid: Grid,
+  placements: Placement[],
+  random: Random,
+  state: SolverState
+): Generator<TileProgress, boolean, void> {
   // Base case: grid is full
   if (grid.isFull()) {
-    return true;
+    return canMeetPieceMix(state);
   }
 
   // Timeout protection
-  if (state.attempts >= state.maxAttempts) {
+  if (isOutOfBudget(state)) {
     return false;
   }
 
@@ -133,26 +206,43 @@ function backtrack(grid: Grid, placements: Placement[], random: SeededRandom, st
   }
 
   // Shuffle placements for variety
-  const shuffledPlacements = random.shuffle(placements);
+  const shuffledPlacements = shuffle(random, placements);
 
-  for (const { tetrominoType, rotationIndex } of shuffledPlacements) {
-    const tetromino = TETROMINOES[tetrominoType];
+  // With a mix target, try the least-used types first (stable sort keeps the shuffle within ties)
+  if (state.pieceMix) {
+    shuffledPlacements.sort((a, b) => state.typeCounts[a.piece.type] - state.typeCounts[b.piece.type]);
+  }
 
-    // Get all anchor positions that would cover the empty cell
-    const anchors = getAnchorsToCoverCell(tetromino, rotationIndex, emptyCell);
+  // Indexed loops and inline anchors: this is the solver's hot path
+  for (let p = 0; p < shuffledPlacements.length; p++) {
+    const { piece: tetromino, rotationIndex } = shuffledPlacements[p];
+    const rotation = tetromino.rotations[rotationIndex];
 
-    for (const anchor of anchors) {
+    // Try every anchor that makes one of the piece's cells cover the empty cell
+    for (let i = 0; i < rotation.length; i++) {
+      const anchor = { row: emptyCell.row - rotation[i].row, col: emptyCell.col - rotation[i].col };
       state.attempts++;
 
+      if (state.attempts >= state.nextYieldAt) {
+        state.nextYieldAt += state.yieldEvery;
+        yield { attempts: state.attempts, backtracks: state.backtracks, depth: state.depth };
+      }
+
       if (grid.canPlace(tetromino, rotationIndex, anchor)) {
         const piece = grid.place(tetromino, rotationIndex, anchor);
+        state.typeCounts[tetromino.type]++;
+        state.emptyCells -= rotation.length;
+        state.depth++;
 
-        if (backtrack(grid, placements, random, state)) {
+        if (canMeetPieceMix(state) && (yield* backtrack(grid, placements, random, state))) {
           return true;
         }
 
         // Backtrack
         grid.remove(piece.id);
+        state.typeCounts[tetromino.type]--;
+        state.emptyCells += rotation.length;
+        state.depth--;
         state.backtracks++;
       }
     }
@@ -161,62 +251,297 @@ function backtrack(grid: Grid, placements: Placement[], random: SeededRandom, st
   return false;
 }
 
-function tileUniformRectangle(rows: number, cols: number, value: boolean, options?: TileOptions): TileResult {
-  const startTime = performance.now();
-  const mask: DigitMask = Array.from({ length: rows }, () => Array(cols).fill(value));
+/** A candidate placement in the exact-cover model, with the flat indices of the cells it covers */
+interface CoverOption {
+  placement: Placement;
+  anchor: { row: number; col: number };
+  cells: number[];
+}
 
-  // Fast deterministic tiling for even-sized rectangles using O pieces.
-  // This avoids backtracking blow-ups for thin strips like 2×N.
-  if (rows % 2 === 0 && cols % 2 === 0) {
-    resetPieceIdCounter();
-    const grid = new Grid(rows, cols, mask);
-    const o = TETROMINOES.O;
+/**
+ * Exact-cover solver (Algorithm X).
+ * Every cell is a constraint that must be covered exactly once, every valid
+ * placement is an option. Branches on the uncovered cell with the fewest
+ * remaining options, so dead ends are found early on any mask shape.
+ * Candidate counts are maintained incrementally, in the spirit of Dancing Links.
+ */
+function* exactCover(
+  grid: Grid,
+  mask: DigitMask,
+  placements: Placement[],
+  random: Random,
+  state: SolverState
+): Generator<TileProgress, boolean, void> {
+  const { rows, cols } = grid;
+  const size = rows * cols;
+
+  // Enumerate every placement that fits the mask on the empty grid
+  const options: CoverOption[] = [];
+  const optionsByCell: number[][] = Array.from({ length: size }, () => []);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      for (const placement of placements) {
+        const anchor = { row, col };
+        if (!grid.canPlace(placement.piece, placement.rotationIndex, anchor)) continue;
+
+        const cells = getAbsoluteCells(placement.piece, placement.rotationIndex, anchor).map((c) => c.row * cols + c.col);
+        for (const cell of cells) {
+          optionsByCell[cell].push(options.length);
+        }
+        options.push({ placement, anchor, cells });
+      }
+    }
+  }
 
-    for (let r = 0; r < rows; r += 2) {
-      for (let c = 0; c < cols; c += 2) {
-        grid.place(o, 0, { row: r, col: c });
+  const covered = new Uint8Array(size);
+  /** Number of selected options overlapping each option (0 = still available) */
+  const blocked = new Int32Array(options.length);
+  /** Number of available options covering each cell */
+  const candidates = Int32Array.from(optionsByCell, (list) => list.length);
+  const chosen: number[] = [];
+
+  // Scratch space for the region-size check (visit stamps avoid clearing per node)
+  const labels = Int32Array.from({ length: size }, (_, cell) => maskLabel(mask[Math.floor(cell / cols)][cell % cols]));
+  const visited = new Uint32Array(size);
+  const stack = new Int32Array(size);
+  let stamp = 0;
+
+  /**
+   * Every connected region of uncovered cells (cells sharing a mask label)
+   * must hold a multiple of the piece cell unit, otherwise this branch can never finish.
+   */
+  const hasUnfillableRegion = (): boolean => {
+    stamp++;
+    for (let start = 0; start < size; start++) {
+      if (covered[start] || visited[start] === stamp) continue;
+      const label = labels[start];
+      let regionSize = 0;
+      let top = 0;
+      stack[top++] = start;
+      visited[start] = stamp;
+      while (top > 0) {
+        const cell = stack[--top];
+        regionSize++;
+        const row = Math.floor(cell / cols);
+        const col = cell % cols;
+        const neighbours = [
+          row > 0 ? cell - cols : -1,
+          row < rows - 1 ? cell + cols : -1,
+          col > 0 ? cell - 1 : -1,
+          col < cols - 1 ? cell + 1 : -1,
+        ];
+        for (const next of neighbours) {
+          if (next < 0 || covered[next] || visited[next] === stamp) continue;
+          if (labels[next] !== label) continue;
+          visited[next] = stamp;
+          stack[top++] = next;
+        }
       }
+      if (regionSize % state.cellUnit !== 0) return true;
     }
+    return false;
+  };
 
-    return {
-      success: true,
-      pieces: grid.getPlacedPieces(),
-      grid: grid.getCells(),
-      stats: { attempts: 0, backtracks: 0, duration: performance.now() - startTime },
-    };
+  const select = (index: number) => {
+    for (const cell of options[index].cells) {
+      covered[cell] = 1;
+      for (const other of optionsByCell[cell]) {
+        if (blocked[other]++ === 0) {
+          for (const otherCell of options[other].cells) candidates[otherCell]--;
+        }
+      }
+    }
+  };
+
+  const deselect = (index: number) => {
+    const cells = options[index].cells;
+    for (let i = cells.length - 1; i >= 0; i--) {
+      const list = optionsByCell[cells[i]];
+      for (let j = list.length - 1; j >= 0; j--) {
+        if (--blocked[list[j]] === 0) {
+          for (const otherCell of options[list[j]].cells) candidates[otherCell]++;
+        }
+      }
+      covered[cells[i]] = 0;
+    }
+  };
+
+  function* search(): Generator<TileProgress, boolean, void> {
+    if (state.emptyCells === 0) {
+      return canMeetPieceMix(state);
+    }
+
+    // Timeout protection
+    if (isOutOfBudget(state)) {
+      return false;
+    }
+
+    // Most-constrained uncovered cell
+    let target = -1;
+    let fewest = Infinity;
+    for (let cell = 0; cell < size && fewest > 0; cell++) {
+      if (!covered[cell] && candidates[cell] < fewest) {
+        target = cell;
+        fewest = candidates[cell];
+      }
+    }
+    if (fewest === 0 || hasUnfillableRegion()) {
+      return false;
+    }
+
+    // Shuffle the options for variety
+    const choices = shuffle(random, optionsByCell[target].filter((index) => blocked[index] === 0));
+
+    // With a mix target, try the least-used types first (stable sort keeps the shuffle within ties)
+    if (state.pieceMix) {
+      choices.sort(
+        (a, b) =>
+          state.typeCounts[options[a].placement.piece.type] - state.typeCounts[options[b].placement.piece.type]
+      );
+    }
+
+    for (const index of choices) {
+      const type = options[index].placement.piece.type;
+      const pieceCells = options[index].cells.length;
+      state.attempts++;
+
+      if (state.attempts >= state.nextYieldAt) {
+        state.nextYieldAt += state.yieldEvery;
+        yield { attempts: state.attempts, backtracks: state.backtracks, depth: state.depth };
+      }
+
+      select(index);
+      chosen.push(index);
+      state.typeCounts[type]++;
+      state.emptyCells -= pieceCells;
+      state.depth++;
+
+      if (canMeetPieceMix(state) && (yield* search())) {
+        return true;
+      }
+
+      // Backtrack
+      deselect(index);
+      chosen.pop();
+      state.typeCounts[type]--;
+      state.emptyCells += pieceCells;
+      state.depth--;
+      state.backtracks++;
+    }
+
+    return false;
   }
 
-  // Fallback to the general solver for odd dimensions.
-  return tileGrid(rows, cols, mask, options);
+  const success = yield* search();
+  if (success) {
+    for (const index of chosen) {
+      const { placement, anchor } = options[index];
+      grid.place(placement.piece, placement.rotationIndex, anchor);
+    }
+  }
+  return success;
 }
 
-/**
- * Tile a grid with the given mask.
- */
-export function tileGrid(rows: number, cols: number, mask: DigitMask, options?: TileOptions): TileResult {
+/** Run a solve to completion without yielding to the event loop */
+function runSync(steps: SolveSteps): TileResult {
+  let next = steps.next();
+  while (!next.done) {
+    next = steps.next();
+  }
+  return next.value;
+}
+
+/** Run a solve, yielding to the event loop between progress snapshots */
+async function runAsync(steps: SolveSteps, options?: AsyncTileOptions): Promise<TileResult> {
+  const signal = options?.signal;
+  signal?.throwIfAborted();
+
+  let next = steps.next();
+  while (!next.done) {
+    options?.onProgress?.(next.value);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    signal?.throwIfAborted();
+    next = steps.next();
+  }
+  return next.value;
+}
+
+function* solveGrid(
+  rows: number,
+  cols: number,
+  mask: DigitMask,
+  options: TileOptions | undefined,
+  yieldEvery: number
+): SolveSteps {
   const startTime = performance.now();
-  const seed = seedToNumber(options?.seed);
+  const seed = resolveSeed(options?.seed);
+  const createRandom = options?.random ?? mulberry32;
   const maxAttempts = options?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const maxDurationMs = options?.maxDurationMs ?? Infinity;
+  const maxRetries = options?.maxRetries ?? DEFAULT_MAX_RETRIES;
 
-  // Reset piece ID counter for consistent results
-  resetPieceIdCounter();
-
-  const grid = new Grid(rows, cols, mask);
-  const random = new SeededRandom(seed);
-  const placements = getAllPlacements();
+  const pieceSet = options?.pieceSet ?? TETROMINO_SET;
+  const types = resolveAllowedTypes(options);
+  const placements = getAllPlacements(pieceSet, types);
 
   const state: SolverState = {
     attempts: 0,
     backtracks: 0,
-    maxAttempts,
+    attemptLimit: maxAttempts,
+    deadline: startTime + maxDurationMs,
+    nextClockCheckAt: 0,
+    exhausted: null,
+    types,
+    typeCounts: emptyTypeCounts(pieceSet.types),
+    emptyCells: rows * cols,
+    minPieceCells: Math.min(...types.map((type) => pieceSet.pieces[type].rotations[0].length)),
+    cellUnit: pieceCellUnit(pieceSet, types),
+    depth: 0,
+    pieceMix: options?.pieceMix,
+    nextYieldAt: yieldEvery,
+    yieldEvery,
   };
 
-  const success = backtrack(grid, placements, random, state);
+  // Reject masks that provably cannot be tiled instead of searching until maxAttempts
+  const analysis = analyzeMask(mask, options);
+  const mixTypes =
+    types.length > 0 && analysis.valid && options?.pieceMix
+      ? requiredDistinctTypes(options.pieceMix, rows * cols, pieceSet, types)
+      : 0;
+  const mixReachable = reachesDistinctTypes(mask, options, mixTypes) !== false;
+  const canSolve = types.length > 0 && analysis.valid && mixReachable;
+
+  // A failed search unwinds completely, so each retry starts from an empty grid
+  // with a fresh budget; attempts and backtracks keep counting across tries.
+  let grid = new Grid(rows, cols, mask);
+  let retries = 0;
+  let trySeed = seed;
+  const search = () => {
+    const random = createRandom(trySeed);
+    return options?.strategy === "exact-cover"
+      ? exactCover(grid, mask, placements, random, state)
+      : backtrack(grid, placements, random, state);
+  };
+
+  let success = canSolve && (yield* search());
+  while (!success && state.exhausted && retries < maxRetries) {
+    retries++;
+    trySeed = retrySeed(seed, retries);
+    grid = new Grid(rows, cols, mask);
+    state.attemptLimit = state.attempts + maxAttempts;
+    state.deadline = performance.now() + maxDurationMs;
+    state.nextClockCheckAt = state.attempts;
+    state.exhausted = null;
+    success = yield* search();
+  }
 
   const stats: TileStats = {
     attempts: state.attempts,
     backtracks: state.backtracks,
     duration: performance.now() - startTime,
+    typeCounts: { ...state.typeCounts },
+    retries,
+    seed: trySeed,
   };
 
   return {
@@ -224,7 +549,311 @@ export function tileGrid(rows: number, cols: number, mask: DigitMask, options?:
     pieces: grid.getPlacedPieces(),
     grid: grid.getCells(),
     stats,
+    ...(success
+      ? {}
+      : { error: describeFailure(pieceSet, types, state, analysis, options, retries, mixReachable ? 0 : mixTypes) }),
+  };
+}
+
+/**
+ * Tile a grid with the given mask.
+ */
+export function tileGrid(rows: number, cols: number, mask: DigitMask, options?: TileOptions): TileResult {
+  return runSync(solveGrid(rows, cols, mask, options, Infinity));
+}
+
+/**
+ * Tile a grid with the given mask without blocking the event loop.
+ * Yields every `yieldEvery` attempts, reports progress, and rejects when `signal` aborts.
+ */
+export function tileGridAsync(
+  rows: number,
+  cols: number,
+  mask: DigitMask,
+  options?: TileOptions & AsyncTileOptions
+): Promise<TileResult> {
+  const yieldEvery = options?.yieldEvery ?? DEFAULT_YIELD_EVERY;
+  return runAsync(solveGrid(rows, cols, mask, options, yieldEvery), options);
+}
+
+/** A placement that fits the mask, with the flat indices of the cells it covers */
+interface FittedOption {
+  placement: Placement;
+  anchor: Cell;
+  cells: number[];
+}
+
+/**
+ * Index every placement that fits the mask by the first cell it covers (row-major).
+ * Filling cells in row-major order, the first empty cell can only be covered by
+ * options listed under it, so each tiling is visited exactly once.
+ */
+function indexOptionsByFirstCell(mask: DigitMask, options?: EnumerateOptions) {
+  const rows = mask.length;
+  const cols = rows > 0 ? mask[0].length : 0;
+  const grid = new Grid(rows, cols, mask);
+  const pieceSet = options?.pieceSet ?? TETROMINO_SET;
+  const placements = getAllPlacements(pieceSet, resolveAllowedTypes(options));
+
+  const byFirstCell: FittedOption[][] = Array.from({ length: rows * cols }, () => []);
+  // Widest distance between an option's first and last cell
+  let span = 1;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      for (const placement of placements) {
+        const anchor = { row, col };
+        if (!grid.canPlace(placement.piece, placement.rotationIndex, anchor)) continue;
+
+        const cells = getAbsoluteCells(placement.piece, placement.rotationIndex, anchor).map((c) => c.row * cols + c.col);
+        const first = Math.min(...cells);
+        byFirstCell[first].push({ placement, anchor, cells });
+        span = Math.max(span, Math.max(...cells) - first + 1);
+      }
+    }
+  }
+
+  return { rows, cols, pieceSet, byFirstCell, span };
+}
+
+/**
+ * Key for the subproblem left after covering every cell before `first`.
+ * Options never reach further than `span` cells past their first cell,
+ * so everything beyond that window is still empty.
+ */
+function frontierKey(covered: Uint8Array, first: number, span: number): string {
+  // Pack the window 16 cells per character to keep large memo tables small
+  const end = Math.min(covered.length, first + span);
+  let key = `${first}:`;
+  for (let start = first; start < end; start += 16) {
+    let bits = 0;
+    for (let i = start; i < Math.min(end, start + 16); i++) {
+      bits |= covered[i] << (i - start);
+    }
+    key += String.fromCharCode(bits);
+  }
+  return key;
+}
+
+/**
+ * Count the distinct tilings of a mask (each label tiled separately, as in tileGrid).
+ * Subproblems are memoized on the covered cells at the filling frontier, so masks
+ * with millions of tilings are counted without visiting each one.
+ * Counting stops at `limit`.
+ * Work grows exponentially with mask width: meant for glyph-sized masks
+ * (each 10×6 digit counts in milliseconds), not the full time grid.
+ */
+export function countTilings(mask: DigitMask, options?: CountTilingsOptions): number {
+  const limit = options?.limit ?? Number.MAX_SAFE_INTEGER;
+  const { byFirstCell, span } = indexOptionsByFirstCell(mask, options);
+  const size = byFirstCell.length;
+  const covered = new Uint8Array(size);
+  // Counts are stored capped at limit, which keeps every sum below exact
+  const memo = new Map<string, number>();
+
+  const count = (from: number): number => {
+    let first = from;
+    while (first < size && covered[first]) first++;
+    if (first === size) return 1;
+
+    const key = frontierKey(covered, first, span);
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    let total = 0;
+    for (const option of byFirstCell[first]) {
+      if (option.cells.some((cell) => covered[cell])) continue;
+
+      for (const cell of option.cells) covered[cell] = 1;
+      total = Math.min(limit, total + count(first + 1));
+      for (const cell of option.cells) covered[cell] = 0;
+
+      if (total >= limit) break;
+    }
+
+    memo.set(key, total);
+    return total;
   };
+
+  return Math.min(limit, count(0));
+}
+
+/**
+ * Yield every tiling of a mask, in a fixed order, as a TileResult.
+ * Stats are cumulative: attempts and backtracks count the search so far.
+ * Stop iterating whenever you have seen enough; masks can have millions of tilings.
+ * Like countTilings, meant for glyph-sized masks.
+ */
+export function* enumerateTilings(mask: DigitMask, options?: EnumerateOptions): Generator<TileResult, void, void> {
+  const startTime = performance.now();
+  const { rows, cols, pieceSet, byFirstCell, span } = indexOptionsByFirstCell(mask, options);
+  const size = byFirstCell.length;
+  const covered = new Uint8Array(size);
+  const chosen: FittedOption[] = [];
+  /** Frontiers already known to have no tiling */
+  const deadEnds = new Set<string>();
+  let attempts = 0;
+  let backtracks = 0;
+
+  const buildResult = (): TileResult => {
+    const grid = new Grid(rows, cols, mask);
+    for (const { placement, anchor } of chosen) {
+      grid.place(placement.piece, placement.rotationIndex, anchor);
+    }
+    const pieces = grid.getPlacedPieces();
+    return {
+      success: true,
+      pieces,
+      grid: grid.getCells(),
+      stats: {
+        attempts,
+        backtracks,
+        duration: performance.now() - startTime,
+        typeCounts: countTypes(pieces, pieceSet.types),
+        retries: 0,
+      },
+    };
+  };
+
+  /** Returns whether any tiling was found below this point */
+  function* search(from: number): Generator<TileResult, boolean, void> {
+    let first = from;
+    while (first < size && covered[first]) first++;
+    if (first === size) {
+      yield buildResult();
+      return true;
+    }
+
+    const key = frontierKey(covered, first, span);
+    if (deadEnds.has(key)) return false;
+
+    let found = false;
+    for (const option of byFirstCell[first]) {
+      attempts++;
+      if (option.cells.some((cell) => covered[cell])) continue;
+
+      for (const cell of option.cells) covered[cell] = 1;
+      chosen.push(option);
+      if (yield* search(first + 1)) found = true;
+      chosen.pop();
+      for (const cell of option.cells) covered[cell] = 0;
+      backtracks++;
+    }
+
+    if (!found) deadEnds.add(key);
+    return found;
+  }
+
+  yield* search(0);
+}
+
+/** Memoized dead ends the up-front piece mix check may collect before leaving the question to the search */
+const MIX_CHECK_MAX_STATES = 200_000;
+
+/**
+ * Distinct piece types a tiling needs to meet a piece mix target. With pieces
+ * of one size, maxCountSpread needs them too: a type left out counts 0, so each
+ * type used can hold at most `maxCountSpread` pieces unless every type is used.
+ */
+function requiredDistinctTypes(mix: PieceMixOptions, cells: number, pieceSet: PieceSet, types: PieceType[]): number {
+  let required = mix.minDistinctTypes ?? 0;
+  const sizes = new Set(types.map((type) => pieceSet.pieces[type].rotations[0].length));
+  if (mix.maxCountSpread !== undefined && sizes.size === 1 && cells > 0) {
+    const pieces = cells / [...sizes][0];
+    required = Math.max(required, Math.min(types.length, Math.ceil(pieces / mix.maxCountSpread)));
+  }
+  return required;
+}
+
+/**
+ * Whether any tiling of the mask uses at least `required` distinct piece types.
+ * Walks the tilings like enumerateTilings, remembering dead ends by their
+ * frontier and the types used so far, so a glyph is settled in milliseconds.
+ * Returns undefined for masks too large to settle within MIX_CHECK_MAX_STATES.
+ */
+function reachesDistinctTypes(mask: DigitMask, options: TileOptions | undefined, required: number): boolean | undefined {
+  const types = resolveAllowedTypes(options);
+  if (required <= 0) return true;
+  if (required > types.length) return false;
+  // Types used so far are a bit set
+  if (types.length > 30) return undefined;
+
+  const bits = new Map(types.map((type, i) => [type, 1 << i]));
+  const { byFirstCell, span } = indexOptionsByFirstCell(mask, options);
+  const size = byFirstCell.length;
+  const covered = new Uint8Array(size);
+  const deadEnds = new Set<string>();
+  /** Stands in for the used types once there are enough of them, so those branches share dead ends */
+  const enough = -1;
+  let tooLarge = false;
+
+  const withType = (used: number, type: PieceType): number => {
+    if (used === enough) return enough;
+    const next = used | bits.get(type)!;
+    let count = 0;
+    for (let rest = next; rest !== 0; rest &= rest - 1) count++;
+    return count >= required ? enough : next;
+  };
+
+  const search = (from: number, used: number): boolean => {
+    let first = from;
+    while (first < size && covered[first]) first++;
+    if (first === size) return used === enough;
+
+    const key = `${frontierKey(covered, first, span)}|${used}`;
+    if (deadEnds.has(key)) return false;
+    if (deadEnds.size >= MIX_CHECK_MAX_STATES) {
+      tooLarge = true;
+      return false;
+    }
+
+    for (const option of byFirstCell[first]) {
+      if (option.cells.some((cell) => covered[cell])) continue;
+
+      for (const cell of option.cells) covered[cell] = 1;
+      const found = search(first + 1, withType(used, option.placement.piece.type));
+      for (const cell of option.cells) covered[cell] = 0;
+
+      if (found) return true;
+      if (tooLarge) return false;
+    }
+
+    deadEnds.add(key);
+    return false;
+  };
+
+  const found = search(0, 0);
+  return tooLarge ? undefined : found;
+}
+
+/** Explain why the backtracker did not find a tiling */
+function describeFailure(
+  pieceSet: PieceSet,
+  types: PieceType[],
+  state: SolverState,
+  analysis: MaskAnalysis,
+  options: TileOptions | undefined,
+  retries: number,
+  unreachableMixTypes: number
+): string {
+  if (types.length === 0) {
+    return `No ${pieceSet.name} types allowed (allowedTypes/forbiddenTypes exclude every piece)`;
+  }
+  if (!analysis.valid) {
+    return `Mask cannot be tiled using pieces ${types.join(", ")}: ${analysis.issues.map((issue) => issue.message).join("; ")}`;
+  }
+  if (unreachableMixTypes > 0) {
+    return `Mask cannot be tiled with the requested piece mix: it needs ${unreachableMixTypes} distinct types, and no tiling using pieces ${types.join(", ")} has that many`;
+  }
+  const target = state.pieceMix ? ` with the requested piece mix` : "";
+  const tries = retries > 0 ? ` (${retries + 1} seeds tried)` : "";
+  if (state.exhausted === "attempts") {
+    const maxAttempts = options?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    return `Gave up after ${maxAttempts} attempts using pieces ${types.join(", ")}${target}${tries}`;
+  }
+  if (state.exhausted === "duration") {
+    return `Gave up after ${options?.maxDurationMs} ms using pieces ${types.join(", ")}${target}${tries}`;
+  }
+  return `Mask cannot be tiled using pieces ${types.join(", ")}${target}`;
 }
 
 /**
@@ -252,160 +881,431 @@ export function tileTime(hours: number, minutes: number, options?: TileOptions):
   const m2 = minutes % 10;
 
   // Use different seeds for each digit to get variety
-  const baseSeed = seedToNumber(options?.seed);
+  const baseSeed = resolveSeed(options?.seed);
 
-  return [
-    tileDigit(h1, { ...options, seed: baseSeed }),
-    tileDigit(h2, { ...options, seed: baseSeed + 1 }),
-    tileDigit(m1, { ...options, seed: baseSeed + 2 }),
-    tileDigit(m2, { ...options, seed: baseSeed + 3 }),
-  ];
+  return [h1, h2, m1, m2].map((digit, index) =>
+    tileDigit(digit, { ...options, seed: regionSeed(baseSeed, "digit", index) })
+  );
 }
 
-function validateTime(hours: number, minutes: number, extendedHours = false): void {
-  const maxHours = extendedHours ? 99 : 23;
-  if (hours < 0 || hours > maxHours || !Number.isInteger(hours)) {
-    throw new Error(`Invalid hours: ${hours}. Must be an integer 0-${maxHours}.`);
+function validateTime(
+  hours: number,
+  minutes: number,
+  options?: Pick<TimeGridOptions, "extendedHours" | "seconds" | "meridiem">
+): void {
+  const [minHours, maxHours] = options?.meridiem ? [1, 12] : [0, options?.extendedHours ? 99 : 23];
+  if (hours < minHours || hours > maxHours || !Number.isInteger(hours)) {
+    throw new Error(`Invalid hours: ${hours}. Must be an integer ${minHours}-${maxHours}.`);
   }
   if (minutes < 0 || minutes > 59 || !Number.isInteger(minutes)) {
     throw new Error(`Invalid minutes: ${minutes}. Must be an integer 0-59.`);
   }
+  const seconds = options?.seconds;
+  if (seconds !== undefined && (seconds < 0 || seconds > 59 || !Number.isInteger(seconds))) {
+    throw new Error(`Invalid seconds: ${seconds}. Must be an integer 0-59.`);
+  }
 }
 
-function buildTimeMask(
-  hours: number,
-  minutes: number,
-  digitGapCols = TIME_DIGIT_GAP_COLS,
-  colonGapCols = TIME_COLON_GAP_COLS,
-  extendedHours = false
-): DigitMask {
-  validateTime(hours, minutes, extendedHours);
-
-  const h1 = Math.floor(hours / 10);
-  const h2 = hours % 10;
-  const m1 = Math.floor(minutes / 10);
-  const m2 = minutes % 10;
-  const digitValues = [h1, h2, m1, m2];
-
-  const gaps = [digitGapCols, colonGapCols, digitGapCols];
-  const cols = DIGIT_COLS * 4 + gaps.reduce((sum, g) => sum + g, 0);
+/**
+ * The layout of the unified HH:MM grid: the unlit top strip above the digits
+ * HH, MM and the gaps between them, followed by SS when `seconds` is set and
+ * the AM / PM marker (id 'meridiem') in 12-hour time. The gaps around the
+ * colons have id 'colon' and hold the colon dots when `colon` is set. Column
+ * offsets only depend on the time when a leading zero is left out.
+ */
+export function timeLayout(hours: number, minutes: number, options?: TimeLayoutOptions): GlyphLayout {
+  const seconds = options?.seconds;
+  validateTime(hours, minutes, options);
 
-  const mask: DigitMask = Array.from({ length: DIGIT_ROWS }, () => Array(cols).fill(false));
+  const font = options?.font ?? BLOCK_FONT;
+  const digitGapCols = options?.digitGapCols ?? TIME_DIGIT_GAP_COLS;
+  const colonGapCols = options?.colonGapCols ?? TIME_COLON_GAP_COLS;
+  const digit = (value: number): LayoutItem => ({ kind: "glyph", mask: font.glyphs[value] });
+  const gap = (cols: number, id?: string): LayoutItem => ({ kind: "separator", cols, id });
+  const colonGap = (): LayoutItem =>
+    options?.colon
+      ? { kind: "separator", cols: colonGapCols, id: "colon", mask: colonMask(font.rows, colonGapCols) }
+      : gap(colonGapCols, "colon");
+
+  const items: LayoutItem[] = [];
+  if (hours >= 10 || options?.leadingZero !== false) {
+    items.push(digit(Math.floor(hours / 10)), gap(digitGapCols));
+  }
+  items.push(
+    digit(hours % 10),
+    colonGap(),
+    digit(Math.floor(minutes / 10)),
+    gap(digitGapCols),
+    digit(minutes % 10)
+  );
+  if (seconds !== undefined) {
+    items.push(colonGap(), digit(Math.floor(seconds / 10)), gap(digitGapCols), digit(seconds % 10));
+  }
+  if (options?.meridiem) {
+    items.push(gap(digitGapCols), { kind: "glyph", id: "meridiem", mask: meridiemMask(options.meridiem, font.rows) });
+  }
+  // Three digits of an odd-width font leave an odd width, and a 2-row top strip
+  // of odd width cannot be tiled: close the grid with one more unlit column
+  const cols = items.reduce((sum, item) => sum + (item.kind === "glyph" ? item.mask[0].length : item.cols), 0);
+  if (cols % 2 === 1) {
+    items.push(gap(1));
+  }
+  return layoutGlyphs(items, { paddingRows: TIME_TOP_UNLIT_ROWS });
+}
 
-  let colOffset = 0;
-  for (let digitIndex = 0; digitIndex < 4; digitIndex++) {
-    const digit = digitValues[digitIndex];
-    const digitMask = DIGIT_PATTERNS[digit];
+/**
+ * Dimensions of the unified time grid for the layout options (TIME_ROWS × TIME_COLS
+ * by default). Without a leading zero, this is the size of two-digit hours.
+ */
+export function timeGridSize(options?: Omit<TimeLayoutOptions, "extendedHours">): {
+  rows: number;
+  cols: number;
+} {
+  const { rows, cols } = timeLayout(10, 0, options);
+  return { rows, cols };
+}
 
-    for (let row = 0; row < DIGIT_ROWS; row++) {
-      for (let col = 0; col < DIGIT_COLS; col++) {
-        mask[row][colOffset + col] = digitMask[row][col];
-      }
-    }
+/** The lit / unlit mask of a whole time grid (see timeLayout) */
+export function timeGridMask(
+  hours: number,
+  minutes: number,
+  options?: TimeLayoutOptions
+): DigitMask {
+  return timeLayout(hours, minutes, options).mask;
+}
 
-    colOffset += DIGIT_COLS;
-    if (digitIndex < 3) {
-      colOffset += gaps[digitIndex] ?? 0;
+/** Sum the statistics of separately solved regions (solved from one base seed) */
+function combineStats(results: TileResult[], seed: number): TileStats {
+  const typeCounts: Record<PieceType, number> = {};
+  for (const result of results) {
+    for (const [type, count] of Object.entries(result.stats.typeCounts)) {
+      typeCounts[type] = (typeCounts[type] ?? 0) + count;
     }
   }
-
-  return mask;
+  return {
+    attempts: results.reduce((sum, r) => sum + r.stats.attempts, 0),
+    backtracks: results.reduce((sum, r) => sum + r.stats.backtracks, 0),
+    duration: results.reduce((sum, r) => sum + r.stats.duration, 0),
+    typeCounts,
+    retries: results.reduce((sum, r) => sum + r.stats.retries, 0),
+    seed,
+  };
 }
 
 /**
- * Tile a full time display (HH:MM) into one unified grid.
+ * Tile a full time display (HH:MM, or HH:MM:SS with `seconds`) into one unified grid.
  *
  * This enables a single continuous playfield/animation where pieces drop
  * one-by-one across the entire display.
  */
-export function tileTimeGrid(
+export function tileTimeGrid(hours: number, minutes: number, options?: TimeGridOptions): TileResult {
+  return runSync(solveTimeGrid(hours, minutes, options, Infinity));
+}
+
+/**
+ * Async variant of tileTimeGrid: yields to the event loop while solving,
+ * reports cumulative progress across all regions, and can be aborted.
+ */
+export function tileTimeGridAsync(
   hours: number,
   minutes: number,
-  options?: TileOptions & {
-    digitGapCols?: number;
-    colonGapCols?: number;
-    extendedHours?: boolean;
-  }
+  options?: TimeGridOptions & AsyncTileOptions
+): Promise<TileResult> {
+  const yieldEvery = options?.yieldEvery ?? DEFAULT_YIELD_EVERY;
+  return runAsync(solveTimeGrid(hours, minutes, options, yieldEvery), options);
+}
+
+/**
+ * Re-tile a time display after the time changed, starting from the previous result
+ * (solved with the same layout options).
+ *
+ * Only the digit and gap regions whose mask changed, and the segments of the top strip
+ * above them, are solved again; pieces in the other regions are reused with the same IDs and
+ * positions, and new pieces get IDs above the previous ones. A changed region is solved exactly as tileTimeGrid
+ * would (same seed), so the result matches a fresh solve apart from the reused regions.
+ * With `singlePass` background pieces cross region borders and the whole field is solved again.
+ */
+export function retileTimeGrid(
+  previous: TileResult,
+  hours: number,
+  minutes: number,
+  options?: TimeGridOptions
 ): TileResult {
-  const extendedHours = options?.extendedHours ?? false;
-  validateTime(hours, minutes, extendedHours);
+  return runSync(solveTimeGrid(hours, minutes, options, Infinity, previous));
+}
 
-  const digitGapCols = options?.digitGapCols ?? TIME_DIGIT_GAP_COLS;
-  const colonGapCols = options?.colonGapCols ?? TIME_COLON_GAP_COLS;
-  const totalCols = DIGIT_COLS * 4 + digitGapCols * 2 + colonGapCols;
-  const topRows = TIME_TOP_UNLIT_ROWS;
+/** Async variant of retileTimeGrid */
+export function retileTimeGridAsync(
+  previous: TileResult,
+  hours: number,
+  minutes: number,
+  options?: TimeGridOptions & AsyncTileOptions
+): Promise<TileResult> {
+  const yieldEvery = options?.yieldEvery ?? DEFAULT_YIELD_EVERY;
+  return runAsync(solveTimeGrid(hours, minutes, options, yieldEvery, previous), options);
+}
 
-  const baseSeed = seedToNumber(options?.seed);
+/**
+ * Tile a line of text (letters, digits, spaces and the symbols in glyphs.ts)
+ * into one grid: one font glyph high (`font`, block by default), glyphs
+ * separated by `letterGapCols` columns.
+ *
+ * Like tileTimeGrid, each glyph and each gap is solved as its own region;
+ * glyph i uses the seed of digit i and the gap after it the seed of gap i.
+ * Letters are case-insensitive; other characters without a glyph throw.
+ */
+export function tileText(text: string, options?: TextOptions): TileResult {
+  return runSync(solveText(text, options, Infinity));
+}
 
-  const h1 = Math.floor(hours / 10);
-  const h2 = hours % 10;
-  const m1 = Math.floor(minutes / 10);
-  const m2 = minutes % 10;
-  const digits = [h1, h2, m1, m2];
+/** Async variant of tileText */
+export function tileTextAsync(text: string, options?: TextOptions & AsyncTileOptions): Promise<TileResult> {
+  const yieldEvery = options?.yieldEvery ?? DEFAULT_YIELD_EVERY;
+  return runAsync(solveText(text, options, yieldEvery), options);
+}
+
+/** The layout of a line of text: its glyphs left to right, `letterGapCols` apart */
+export function textLayout(text: string, options?: Pick<TextOptions, "font" | "letterGapCols">): GlyphLayout {
+  const glyphs = Array.from(text);
+  if (glyphs.length === 0) {
+    throw new Error("Text must have at least one character");
+  }
+  const font = options?.font ?? BLOCK_FONT;
+  const masks = glyphs.map((glyph) => glyphMask(glyph, font));
+
+  const gapCols = options?.letterGapCols ?? TIME_DIGIT_GAP_COLS;
+  if (gapCols < 0 || !Number.isInteger(gapCols)) {
+    throw new Error(`Invalid letterGapCols: ${gapCols}. Must be a non-negative integer.`);
+  }
+
+  return layoutGlyphs(
+    masks.flatMap((mask, index): LayoutItem[] =>
+      index === 0 ? [{ kind: "glyph", mask }] : [{ kind: "separator", cols: gapCols }, { kind: "glyph", mask }]
+    )
+  );
+}
 
-  const gapMask = (cols: number): DigitMask => Array.from({ length: DIGIT_ROWS }, () => Array(cols).fill(false));
+function* solveText(text: string, options: TextOptions | undefined, yieldEvery: number): SolveSteps {
+  const layout = textLayout(text, options);
+  const baseSeed = resolveSeed(options?.seed);
+  const regions = layoutRegions(layout, options, baseSeed);
+  return yield* solveRegions(layout.rows, layout.cols, regions, options, baseSeed, yieldEvery);
+}
+
+/** One separately solved rectangle of a stitched grid (time display or text) */
+interface GridRegion {
+  rowOffset: number;
+  colOffset: number;
+  mask: DigitMask;
+  options: TileOptions;
+}
+
+/**
+ * The regions of a stitched grid, in layout order, with the options to solve them:
+ * glyph i and separator i are seeded as digit i and gap i, padding segment i as top strip segment i.
+ */
+function layoutRegions(layout: GlyphLayout, options: TileOptions | undefined, baseSeed: number): GridRegion[] {
+  // The piece mix target applies per glyph; the thin background strips are
+  // too small to hold a balanced mix, so they are tiled without it.
+  const backgroundOptions: TileOptions = { ...options, pieceMix: undefined };
 
   // Tile each region separately for reliability:
-  // digits are well-behaved 10x6 masks; gaps are uniform "unlit" rectangles.
-  const d0 = tileDigit(digits[0], { ...options, seed: baseSeed });
-  const g0 = tileGrid(DIGIT_ROWS, digitGapCols, gapMask(digitGapCols), {
-    ...options,
-    seed: baseSeed + 10,
-  });
-  const d1 = tileDigit(digits[1], { ...options, seed: baseSeed + 1 });
-  const g1 = tileGrid(DIGIT_ROWS, colonGapCols, gapMask(colonGapCols), {
-    ...options,
-    seed: baseSeed + 11,
-  });
-  const d2 = tileDigit(digits[2], { ...options, seed: baseSeed + 2 });
-  const g2 = tileGrid(DIGIT_ROWS, digitGapCols, gapMask(digitGapCols), {
-    ...options,
-    seed: baseSeed + 12,
+  // glyphs are well-behaved masks; separators are uniform "unlit" rectangles.
+  return layout.regions.map(({ kind, index, id, rowOffset, colOffset, mask }) => {
+    switch (kind) {
+      case "glyph":
+        // The thin strokes of the AM / PM marker stall the backtracker on most seeds; exact cover does not
+        return {
+          rowOffset,
+          colOffset,
+          mask,
+          options: {
+            ...options,
+            strategy: id === "meridiem" ? "exact-cover" : options?.strategy,
+            seed: regionSeed(baseSeed, "digit", index),
+          },
+        };
+      case "separator":
+        return {
+          rowOffset,
+          colOffset,
+          mask,
+          options: { ...backgroundOptions, seed: regionSeed(baseSeed, "gap", index) },
+        };
+      case "padding":
+        // The first-empty-cell backtracker blows up on thin 2×N bands; exact cover tiles them directly
+        return {
+          rowOffset,
+          colOffset,
+          mask,
+          options: { ...backgroundOptions, strategy: "exact-cover", seed: regionSeed(baseSeed, "topStrip", index) },
+        };
+    }
   });
-  const d3 = tileDigit(digits[3], { ...options, seed: baseSeed + 3 });
-
-  const top =
-    topRows > 0
-      ? tileUniformRectangle(topRows, totalCols, false, { ...options, seed: baseSeed + 20 })
-      : { success: true, pieces: [], grid: [], stats: { attempts: 0, backtracks: 0, duration: 0 } };
-
-  const parts = [
-    { result: top, rowOffset: 0, colOffset: 0 },
-    { result: d0, rowOffset: topRows, colOffset: 0 },
-    { result: g0, rowOffset: topRows, colOffset: DIGIT_COLS },
-    { result: d1, rowOffset: topRows, colOffset: DIGIT_COLS + digitGapCols },
-    { result: g1, rowOffset: topRows, colOffset: DIGIT_COLS * 2 + digitGapCols },
-    { result: d2, rowOffset: topRows, colOffset: DIGIT_COLS * 2 + digitGapCols + colonGapCols },
-    { result: g2, rowOffset: topRows, colOffset: DIGIT_COLS * 3 + digitGapCols + colonGapCols },
-    { result: d3, rowOffset: topRows, colOffset: DIGIT_COLS * 3 + digitGapCols * 2 + colonGapCols },
-  ];
-
-  if (parts.some((p) => !p.result.success)) {
+}
+
+/**
+ * The previous pieces covering a region, if they tile exactly its current mask:
+ * every cell covered with the right label, and no piece reaching outside the region.
+ */
+function reusablePieces(previous: TileResult, region: GridRegion): PlacedTetromino[] | null {
+  const rows = region.mask.length;
+  const cols = region.mask[0].length;
+  const inside = (cell: Cell) =>
+    cell.row >= region.rowOffset &&
+    cell.row < region.rowOffset + rows &&
+    cell.col >= region.colOffset &&
+    cell.col < region.colOffset + cols;
+
+  const ids = new Set<string>();
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const piece = previous.grid[region.rowOffset + row]?.[region.colOffset + col];
+      if (!piece || piece.label !== maskLabel(region.mask[row][col]) || !piece.cells.every(inside)) {
+        return null;
+      }
+      ids.add(piece.id);
+    }
+  }
+  return previous.pieces.filter((piece) => ids.has(piece.id));
+}
+
+/** Whether `upper` has a cell above a cell of `lower` in the same column */
+function isRegionAbove(upper: GridRegion, lower: GridRegion): boolean {
+  const overlapsColumns =
+    upper.colOffset < lower.colOffset + lower.mask[0].length && lower.colOffset < upper.colOffset + upper.mask[0].length;
+  return upper !== lower && overlapsColumns && upper.rowOffset < lower.rowOffset + lower.mask.length;
+}
+
+/** Numeric part of a "piece-N" ID (0 for other IDs) */
+function pieceNumber(id: string): number {
+  const match = /^piece-(\d+)$/.exec(id);
+  return match ? Number(match[1]) : 0;
+}
+
+function* solveTimeGrid(
+  hours: number,
+  minutes: number,
+  options: TimeGridOptions | undefined,
+  yieldEvery: number,
+  previous?: TileResult
+): SolveSteps {
+  const layout = timeLayout(hours, minutes, options);
+  const baseSeed = resolveSeed(options?.seed);
+
+  if (options?.singlePass) {
+    // The background is one large irregular region, which the first-empty-cell
+    // backtracker handles poorly; exact cover branches on the tightest cell instead.
+    const fieldOptions: TileOptions = { ...options, strategy: options.strategy ?? "exact-cover", seed: baseSeed };
+    return yield* solveGrid(layout.rows, layout.cols, layout.mask, fieldOptions, yieldEvery);
+  }
+
+  const regions = layoutRegions(layout, options, baseSeed);
+  return yield* solveRegions(layout.rows, layout.cols, regions, options, baseSeed, yieldEvery, previous);
+}
+
+/**
+ * Solve the regions of a stitched grid one after another and combine them into
+ * one result, with piece IDs numbered across the whole grid.
+ * With `previous` (same dimensions), regions it still tiles exactly are reused,
+ * unless they sit above a region that is solved again.
+ */
+function* solveRegions(
+  totalRows: number,
+  totalCols: number,
+  regions: GridRegion[],
+  options: TileOptions | undefined,
+  baseSeed: number,
+  yieldEvery: number,
+  previous?: TileResult
+): SolveSteps {
+  // A previous result with another layout has nothing to reuse
+  const reuseFrom =
+    previous?.success && previous.grid.length === totalRows && previous.grid[0]?.length === totalCols
+      ? previous
+      : undefined;
+  const types = (options?.pieceSet ?? TETROMINO_SET).types;
+
+  // Progress snapshots are cumulative across regions
+  const totals = { attempts: 0, backtracks: 0 };
+  function* solveRegion(steps: SolveSteps): SolveSteps {
+    let next = steps.next();
+    while (!next.done) {
+      yield {
+        attempts: totals.attempts + next.value.attempts,
+        backtracks: totals.backtracks + next.value.backtracks,
+        depth: next.value.depth,
+      };
+      next = steps.next();
+    }
+    totals.attempts += next.value.stats.attempts;
+    totals.backtracks += next.value.stats.backtracks;
+    return next.value;
+  }
+
+  // A region above a re-solved one is solved again too: its settled pieces would block the drops below
+  const reusedPieces = regions.map((region) => (reuseFrom ? reusablePieces(reuseFrom, region) : null));
+  let blocking = true;
+  while (blocking) {
+    blocking = false;
+    regions.forEach((region, i) => {
+      if (reusedPieces[i] && regions.some((other, j) => !reusedPieces[j] && isRegionAbove(region, other))) {
+        reusedPieces[i] = null;
+        blocking = true;
+      }
+    });
+  }
+
+  const parts: { region: GridRegion; result: TileResult; reused: boolean }[] = [];
+  for (const [i, region] of regions.entries()) {
+    const reused = reusedPieces[i];
+    if (reused) {
+      // Reused pieces keep their absolute positions; only their counts enter the stats
+      parts.push({
+        region,
+        reused: true,
+        result: {
+          success: true,
+          pieces: reused,
+          grid: [],
+          stats: { attempts: 0, backtracks: 0, duration: 0, typeCounts: countTypes(reused, types), retries: 0 },
+        },
+      });
+      continue;
+    }
+    const result = yield* solveRegion(
+      solveGrid(region.mask.length, region.mask[0].length, region.mask, region.options, yieldEvery)
+    );
+    parts.push({ region, reused: false, result });
+  }
+
+  const failedPart = parts.find((p) => !p.result.success);
+  if (failedPart) {
     return {
       success: false,
       pieces: [],
-      grid: Array.from({ length: DIGIT_ROWS + topRows }, () => Array(totalCols).fill(null)),
-      stats: {
-        attempts: parts.reduce((sum, p) => sum + (p.result.stats?.attempts ?? 0), 0),
-        backtracks: parts.reduce((sum, p) => sum + (p.result.stats?.backtracks ?? 0), 0),
-        duration: parts.reduce((sum, p) => sum + (p.result.stats?.duration ?? 0), 0),
-      },
+      grid: Array.from({ length: totalRows }, () => Array(totalCols).fill(null)),
+      stats: combineStats(parts.map((p) => p.result), baseSeed),
+      error: failedPart.result.error,
     };
   }
 
-  const totalRows = DIGIT_ROWS + topRows;
   const grid: (PlacedTetromino | null)[][] = Array.from({ length: totalRows }, () => Array(totalCols).fill(null));
   const pieces: PlacedTetromino[] = [];
-  let combinedId = 0;
+  // New IDs continue after the previous ones, so they never collide with reused pieces
+  let combinedId = reuseFrom ? Math.max(0, ...reuseFrom.pieces.map((piece) => pieceNumber(piece.id))) : 0;
 
   for (const part of parts) {
+    const { rowOffset, colOffset } = part.region;
     for (const original of part.result.pieces) {
-      const piece: PlacedTetromino = {
-        ...original,
-        id: `piece-${++combinedId}`,
-        anchor: { row: original.anchor.row + part.rowOffset, col: original.anchor.col + part.colOffset },
-        cells: original.cells.map((c) => ({ row: c.row + part.rowOffset, col: c.col + part.colOffset })),
-      };
+      const piece: PlacedTetromino = part.reused
+        ? original
+        : {
+            ...original,
+            id: `piece-${++combinedId}`,
+            anchor: { row: original.anchor.row + rowOffset, col: original.anchor.col + colOffset },
+            cells: original.cells.map((c) => ({ row: c.row + rowOffset, col: c.col + colOffset })),
+          };
 
       pieces.push(piece);
       for (const cell of piece.cells) {
@@ -422,11 +1322,7 @@ export function tileTimeGrid(
           success: false,
           pieces: [],
           grid,
-          stats: {
-            attempts: parts.reduce((sum, p) => sum + p.result.stats.attempts, 0),
-            backtracks: parts.reduce((sum, p) => sum + p.result.stats.backtracks, 0),
-            duration: parts.reduce((sum, p) => sum + p.result.stats.duration, 0),
-          },
+          stats: combineStats(parts.map((p) => p.result), baseSeed),
         };
       }
     }
@@ -436,10 +1332,6 @@ export function tileTimeGrid(
     success: true,
     pieces,
     grid,
-    stats: {
-      attempts: parts.reduce((sum, p) => sum + p.result.stats.attempts, 0),
-      backtracks: parts.reduce((sum, p) => sum + p.result.stats.backtracks, 0),
-      duration: parts.reduce((sum, p) => sum + p.result.stats.duration, 0),
-    },
+    stats: combineStats(parts.map((p) => p.result), baseSeed),
   };
 }
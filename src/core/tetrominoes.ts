@@ -1,7 +1,9 @@
-import type { Tetromino, TetrominoType, Cell } from './types';
+import type { Tetromino, TetrominoType, Cell, Polyomino, PieceSet, PieceType, TileOptions } from './types';
+import { definePiece, createPieceSet } from './pieces';
 
 /**
  * All 7 standard Tetris tetrominoes with their rotation states.
+ * Each is defined by its spawn shape; rotations are derived clockwise (see pieces.ts).
  * Cells are defined relative to an anchor point at (0, 0).
  * The anchor is the top-left of the bounding box for each rotation.
  */
@@ -14,231 +16,76 @@ export const TETROMINOES: Record<TetrominoType, Tetromino> = {
    *             █
    *             █
    */
-  I: {
-    type: 'I',
-    rotations: [
-      // Horizontal
-      [
-        { row: 0, col: 0 },
-        { row: 0, col: 1 },
-        { row: 0, col: 2 },
-        { row: 0, col: 3 },
-      ],
-      // Vertical
-      [
-        { row: 0, col: 0 },
-        { row: 1, col: 0 },
-        { row: 2, col: 0 },
-        { row: 3, col: 0 },
-      ],
-    ],
-  },
+  I: definePiece('I', 'XXXX'),
 
   /**
    * O-piece: 1 rotation (symmetric)
    * ██
    * ██
    */
-  O: {
-    type: 'O',
-    rotations: [
-      [
-        { row: 0, col: 0 },
-        { row: 0, col: 1 },
-        { row: 1, col: 0 },
-        { row: 1, col: 1 },
-      ],
-    ],
-  },
+  O: definePiece('O', 'XX\nXX'),
 
   /**
-   * T-piece: 4 rotations
+   * T-piece: 4 rotations (down, left, up, right)
+   * ███
+   *  █
    */
-  T: {
-    type: 'T',
-    rotations: [
-      // T pointing down: ███
-      //                   █
-      [
-        { row: 0, col: 0 },
-        { row: 0, col: 1 },
-        { row: 0, col: 2 },
-        { row: 1, col: 1 },
-      ],
-      // T pointing left:  █
-      //                  ██
-      //                   █
-      [
-        { row: 0, col: 1 },
-        { row: 1, col: 0 },
-        { row: 1, col: 1 },
-        { row: 2, col: 1 },
-      ],
-      // T pointing up:  █
-      //                ███
-      [
-        { row: 0, col: 1 },
-        { row: 1, col: 0 },
-        { row: 1, col: 1 },
-        { row: 1, col: 2 },
-      ],
-      // T pointing right: █
-      //                   ██
-      //                   █
-      [
-        { row: 0, col: 0 },
-        { row: 1, col: 0 },
-        { row: 1, col: 1 },
-        { row: 2, col: 0 },
-      ],
-    ],
-  },
+  T: definePiece('T', 'XXX\n.X.'),
 
   /**
    * S-piece: 2 rotations
+   *  ██
+   * ██
    */
-  S: {
-    type: 'S',
-    rotations: [
-      // Horizontal:  ██
-      //             ██
-      [
-        { row: 0, col: 1 },
-        { row: 0, col: 2 },
-        { row: 1, col: 0 },
-        { row: 1, col: 1 },
-      ],
-      // Vertical: █
-      //           ██
-      //            █
-      [
-        { row: 0, col: 0 },
-        { row: 1, col: 0 },
-        { row: 1, col: 1 },
-        { row: 2, col: 1 },
-      ],
-    ],
-  },
+  S: definePiece('S', '.XX\nXX.'),
 
   /**
    * Z-piece: 2 rotations
+   * ██
+   *  ██
    */
-  Z: {
-    type: 'Z',
-    rotations: [
-      // Horizontal: ██
-      //              ██
-      [
-        { row: 0, col: 0 },
-        { row: 0, col: 1 },
-        { row: 1, col: 1 },
-        { row: 1, col: 2 },
-      ],
-      // Vertical:  █
-      //           ██
-      //           █
-      [
-        { row: 0, col: 1 },
-        { row: 1, col: 0 },
-        { row: 1, col: 1 },
-        { row: 2, col: 0 },
-      ],
-    ],
-  },
+  Z: definePiece('Z', 'XX.\n.XX'),
 
   /**
    * J-piece: 4 rotations
+   * █
+   * ███
    */
-  J: {
-    type: 'J',
-    rotations: [
-      // █
-      // ███
-      [
-        { row: 0, col: 0 },
-        { row: 1, col: 0 },
-        { row: 1, col: 1 },
-        { row: 1, col: 2 },
-      ],
-      // ██
-      // █
-      // █
-      [
-        { row: 0, col: 0 },
-        { row: 0, col: 1 },
-        { row: 1, col: 0 },
-        { row: 2, col: 0 },
-      ],
-      // ███
-      //   █
-      [
-        { row: 0, col: 0 },
-        { row: 0, col: 1 },
-        { row: 0, col: 2 },
-        { row: 1, col: 2 },
-      ],
-      //  █
-      //  █
-      // ██
-      [
-        { row: 0, col: 1 },
-        { row: 1, col: 1 },
-        { row: 2, col: 0 },
-        { row: 2, col: 1 },
-      ],
-    ],
-  },
+  J: definePiece('J', 'X..\nXXX'),
 
   /**
    * L-piece: 4 rotations
+   *   █
+   * ███
    */
-  L: {
-    type: 'L',
-    rotations: [
-      //   █
-      // ███
-      [
-        { row: 0, col: 2 },
-        { row: 1, col: 0 },
-        { row: 1, col: 1 },
-        { row: 1, col: 2 },
-      ],
-      // █
-      // █
-      // ██
-      [
-        { row: 0, col: 0 },
-        { row: 1, col: 0 },
-        { row: 2, col: 0 },
-        { row: 2, col: 1 },
-      ],
-      // ███
-      // █
-      [
-        { row: 0, col: 0 },
-        { row: 0, col: 1 },
-        { row: 0, col: 2 },
-        { row: 1, col: 0 },
-      ],
-      // ██
-      //  █
-      //  █
-      [
-        { row: 0, col: 0 },
-        { row: 0, col: 1 },
-        { row: 1, col: 1 },
-        { row: 2, col: 1 },
-      ],
-    ],
-  },
+  L: definePiece('L', '..X\nXXX'),
 };
 
 /** List of all tetromino types */
 export const TETROMINO_TYPES: TetrominoType[] = ['I', 'O', 'T', 'S', 'Z', 'J', 'L'];
 
-/** Get absolute cell positions given a tetromino, rotation index, and anchor position */
+/** The default piece set: the 7 tetrominoes */
+export const TETROMINO_SET: PieceSet = createPieceSet(
+  'tetromino',
+  TETROMINO_TYPES.map((type) => TETROMINOES[type])
+);
+
+/**
+ * Resolve which piece types the solver may use.
+ * allowedTypes narrows the piece set, forbiddenTypes is removed afterwards.
+ */
+export function resolveAllowedTypes(
+  options?: Pick<TileOptions, 'pieceSet' | 'allowedTypes' | 'forbiddenTypes'>
+): PieceType[] {
+  const types = (options?.pieceSet ?? TETROMINO_SET).types;
+  const allowed = options?.allowedTypes ?? types;
+  const forbidden = new Set(options?.forbiddenTypes ?? []);
+  return types.filter((type) => allowed.includes(type) && !forbidden.has(type));
+}
+
+/** Get absolute cell positions given a piece, rotation index, and anchor position */
 export function getAbsoluteCells(
-  tetromino: Tetromino,
+  tetromino: Polyomino,
   rotationIndex: number,
   anchor: Cell
 ): Cell[] {
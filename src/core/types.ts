@@ -7,24 +7,43 @@ export interface Cell {
   col: number;
 }
 
+/** Name of a piece within its piece set (e.g. 'T' for tetrominoes) */
+export type PieceType = string;
+
+/** A polyomino definition with all its rotation states */
+export interface Polyomino {
+  type: PieceType;
+  /** Each rotation is an array of cells (relative to anchor at 0,0) */
+  rotations: Cell[][];
+}
+
 /** A tetromino definition with all its rotation states */
-export interface Tetromino {
+export interface Tetromino extends Polyomino {
   type: TetrominoType;
-  /** Each rotation is an array of 4 cells (relative to anchor at 0,0) */
-  rotations: Cell[][];
 }
 
-/** A tetromino that has been placed on the grid */
+/** The pieces a grid is tiled with (tetrominoes by default) */
+export interface PieceSet {
+  /** Lower-case singular name used in messages, e.g. 'tetromino' */
+  name: string;
+  /** Piece types in the order the solver lists them */
+  types: PieceType[];
+  pieces: Record<PieceType, Polyomino>;
+}
+
+/** A piece that has been placed on the grid (a tetromino unless a custom piece set is used) */
 export interface PlacedTetromino {
   id: string;
-  type: TetrominoType;
+  type: PieceType;
   rotationIndex: number;
   /** The anchor position (top-left of bounding box) */
   anchor: Cell;
   /** Absolute cell positions on the grid */
   cells: Cell[];
-  /** Whether this piece is in the "lit" (digit) or "unlit" (background) region */
+  /** Whether this piece is in the "lit" (digit) or "unlit" (background) region (label !== 0) */
   isLit: boolean;
+  /** Mask region label of the piece's cells (0 = unlit, 1 = lit, 2+ = custom regions) */
+  label: number;
 }
 
 /** Statistics about the tiling process */
@@ -35,6 +54,15 @@ export interface TileStats {
   backtracks: number;
   /** Time taken in milliseconds */
   duration: number;
+  /** Number of placed pieces of each type in the piece set */
+  typeCounts: Record<PieceType, number>;
+  /** Solves restarted with a derived seed after running out of budget (summed over regions) */
+  retries: number;
+  /**
+   * Seed of the try that produced the result: the requested seed, or the derived
+   * seed of the last retry (the base seed for results stitched from several regions)
+   */
+  seed?: number;
 }
 
 /** Result of a tiling operation */
@@ -47,18 +75,240 @@ export interface TileResult {
   grid: (PlacedTetromino | null)[][];
   /** Statistics about the solving process */
   stats: TileStats;
+  /** Why tiling failed (only set when success is false) */
+  error?: string;
 }
 
 /** Options for tiling operations */
 export interface TileOptions {
-  /** Seed for deterministic randomization */
+  /**
+   * Seed for deterministic randomization: strings are hashed, an omitted seed is
+   * Date.now() (reported in TileStats.seed)
+   */
   seed?: number | string;
-  /** Maximum attempts before giving up */
+  /** Maximum attempts per try before giving up (default: 1,000,000) */
   maxAttempts?: number;
+  /** Maximum wall-clock time per try in milliseconds (default: no limit) */
+  maxDurationMs?: number;
+  /**
+   * Tries with derived seeds after a try runs out of attempts or time (default: 0).
+   * Each try has the full budget, so retries multiply the worst case.
+   * Masks that cannot be tiled at all fail without retrying.
+   */
+  maxRetries?: number;
+  /** Pieces to tile with (default: the 7 tetrominoes) */
+  pieceSet?: PieceSet;
+  /** Only use these piece types (default: the whole piece set) */
+  allowedTypes?: PieceType[];
+  /** Never use these piece types (applied after allowedTypes) */
+  forbiddenTypes?: PieceType[];
+  /** Target distribution of piece types */
+  pieceMix?: PieceMixOptions;
+  /** Search strategy (default: 'backtrack') */
+  strategy?: SolverStrategy;
+  /**
+   * Random number generator to draw from, created per region and retry from its
+   * derived seed (default: Mulberry32; see random.ts for the seed contract)
+   */
+  random?: RandomFactory;
+}
+
+/** A source of uniformly distributed numbers */
+export interface Random {
+  /** Next number in [0, 1) */
+  next(): number;
+}
+
+/** Creates the generator for a numeric seed */
+export type RandomFactory = (seed: number) => Random;
+
+/**
+ * How the solver searches for a tiling:
+ * - 'backtrack': fill the first empty cell in row-major order (fast on digit masks)
+ * - 'exact-cover': Algorithm X, branching on the cell with the fewest remaining
+ *   placements (robust on arbitrary masks such as thin strips or large canvases)
+ */
+export type SolverStrategy = 'backtrack' | 'exact-cover';
+
+/** Glyph masks of one size, looked up by name (see fonts.ts) */
+export interface Font {
+  /** Registry name, e.g. 'block' */
+  name: string;
+  /** Rows of every glyph */
+  rows: number;
+  /** Columns of every glyph */
+  cols: number;
+  /** Glyph masks by character: '0'-'9' in every font, upper case letters and symbols in some */
+  glyphs: Record<string, DigitMask>;
+}
+
+/** Options for tiling the unified HH:MM grid */
+export interface TimeGridOptions extends TileOptions {
+  /** Font of the digits (default: the block font) */
+  font?: Font;
+  /** Columns between the two digits of HH and of MM */
+  digitGapCols?: number;
+  /** Columns between HH and MM (where the colon sits), and between MM and SS */
+  colonGapCols?: number;
+  /** Allow hours up to 99 (countdown mode) */
+  extendedHours?: boolean;
+  /** Seconds (0-59) shown after the minutes as HH:MM:SS; omitted shows HH:MM */
+  seconds?: number;
+  /** 12-hour time: hours are 1-12 and an AM / PM marker follows the time */
+  meridiem?: Meridiem;
+  /** Set to false to leave out the leading zero of a one-digit hour (H:MM, 3 digits) */
+  leadingZero?: boolean;
+  /**
+   * Tile the colons into the colon gaps as two dots of their own region
+   * (label COLON_LABEL) instead of leaving the gaps unlit
+   */
+  colon?: boolean;
+  /**
+   * Solve the whole field as one region instead of stitching digits, gaps and
+   * the top strip together, so background pieces can cross the gaps (no seams).
+   * Uses the 'exact-cover' strategy unless `strategy` says otherwise; `pieceMix`
+   * then applies to the whole field.
+   */
+  singlePass?: boolean;
+}
+
+/** The time grid options that shape the grid rather than its tiling (see timeLayout) */
+export type TimeLayoutOptions = Pick<
+  TimeGridOptions,
+  'font' | 'digitGapCols' | 'colonGapCols' | 'extendedHours' | 'seconds' | 'meridiem' | 'leadingZero' | 'colon'
+>;
+
+/** Half of the day in 12-hour time */
+export type Meridiem = 'AM' | 'PM';
+
+/** Options for tiling a line of text (see glyphs.ts) */
+export interface TextOptions extends TileOptions {
+  /** Font of the glyphs (default: the block font, the only built-in font with letters) */
+  font?: Font;
+  /** Columns between glyphs (default: 2, like the digits of a time) */
+  letterGapCols?: number;
 }
 
-/** A digit pattern mask (true = lit/digit, false = unlit/background) */
-export type DigitMask = boolean[][];
+/**
+ * One item of a glyph layout (see layout.ts), placed left to right: a glyph,
+ * or a separator of `cols` columns that is unlit unless it has a mask.
+ */
+export type LayoutItem = (
+  | { kind: 'glyph'; mask: DigitMask }
+  | { kind: 'separator'; cols: number; mask?: DigitMask }
+) & {
+  /** Name to find the item's region by, e.g. 'colon' */
+  id?: string;
+};
+
+/** Options for layoutGlyphs */
+export interface LayoutOptions {
+  /** Unlit rows above the glyphs, split into segments over the glyphs and separators (default: 0) */
+  paddingRows?: number;
+}
+
+/** One rectangle of a layout, placed in the combined grid */
+export interface LayoutRegion {
+  /** 'padding' is a segment of the unlit strip above the glyphs */
+  kind: 'glyph' | 'separator' | 'padding';
+  /** Index among the items of the same kind, left to right */
+  index: number;
+  /** The item's id, if it has one */
+  id?: string;
+  rowOffset: number;
+  colOffset: number;
+  rows: number;
+  cols: number;
+  mask: DigitMask;
+}
+
+/** Glyphs and separators laid out in one grid */
+export interface GlyphLayout {
+  rows: number;
+  cols: number;
+  /** Mask of the whole grid */
+  mask: DigitMask;
+  /** The padding segments (if any), then the glyphs and separators, each left to right; empty separators are left out */
+  regions: LayoutRegion[];
+}
+
+/** Progress snapshot reported by the async solver */
+export interface TileProgress {
+  /** Placement attempts so far */
+  attempts: number;
+  /** Backtracks so far */
+  backtracks: number;
+  /** Pieces currently placed in the region being solved */
+  depth: number;
+}
+
+/** Options for the async (cancellable) solver API */
+export interface AsyncTileOptions {
+  /** Abort the solve; the returned promise rejects with the signal's reason */
+  signal?: AbortSignal;
+  /** Yield to the event loop every N attempts (default: 10,000) */
+  yieldEvery?: number;
+  /** Called with a progress snapshot each time the solver yields */
+  onProgress?: (progress: TileProgress) => void;
+}
+
+/** Options for enumerating every tiling of a mask */
+export type EnumerateOptions = Pick<TileOptions, 'pieceSet' | 'allowedTypes' | 'forbiddenTypes'>;
+
+/** Options for counting the tilings of a mask */
+export interface CountTilingsOptions extends EnumerateOptions {
+  /** Stop counting once this many tilings are found (default: Number.MAX_SAFE_INTEGER) */
+  limit?: number;
+}
+
+/** Kinds of problem analyzeMask can detect */
+export type MaskIssueKind = 'isolated-cell' | 'region-size' | 'too-narrow' | 'checkerboard';
+
+/** One reason a mask cannot be tiled */
+export interface MaskIssue {
+  kind: MaskIssueKind;
+  /** Human-readable explanation */
+  message: string;
+  /** Cells that cause the problem */
+  cells: Cell[];
+}
+
+/** Result of analyzeMask */
+export interface MaskAnalysis {
+  /**
+   * False when a check proves the mask cannot be tiled.
+   * True does not guarantee a tiling exists (the checks are necessary, not sufficient).
+   */
+  valid: boolean;
+  issues: MaskIssue[];
+}
+
+/**
+ * Constraints on how often each piece type appears in a tiling. Targets no
+ * tiling of the mask can meet fail up front: no block digit 2, 3 or 5 holds
+ * more than 4 tetromino types and no digit 4 more than 6, so they cannot meet
+ * `minDistinctTypes: 5` (2, 3, 5) or `maxCountSpread: 1` (2-5), which needs
+ * all 7 types for the 15 pieces of a digit.
+ */
+export interface PieceMixOptions {
+  /** Minimum number of distinct piece types the tiling must use */
+  minDistinctTypes?: number;
+  /**
+   * Maximum difference between the most- and least-used allowed type.
+   * 1 matches a 7-bag randomizer, where every type is dealt equally often.
+   */
+  maxCountSpread?: number;
+}
+
+/** A digit pattern mask (true = lit/digit, false = unlit/background, or region labels) */
+export type DigitMask = MaskValue[][];
+
+/**
+ * One mask cell: false / true for unlit / lit, or an integer region label
+ * (0 = unlit, 1 = lit, 2+ = extra regions such as outlines, fills or the colon).
+ * Pieces never straddle cells with different labels.
+ */
+export type MaskValue = boolean | number;
 
 /** Movement direction for horizontal movement */
 export type MoveDirection = 'left' | 'right' | 'none';
@@ -97,3 +347,69 @@ export interface SequenceResult {
   rows: number;
   cols: number;
 }
+
+/**
+ * A piece in an encoded tiling: type, rotation index, anchor row, anchor column
+ * and mask label
+ */
+export type EncodedPiece = [type: PieceType, rotation: number, row: number, col: number, label: number];
+
+/** JSON form of a tiling (see encoding.ts) */
+export interface EncodedTiling {
+  version: 1;
+  /** Name of the piece set the types belong to, e.g. 'tetromino' */
+  pieceSet: string;
+  rows: number;
+  cols: number;
+  /** Pieces in row-major order of their first cell */
+  pieces: EncodedPiece[];
+  /** Seed the tiling was solved with, when known */
+  seed?: number;
+}
+
+/** JSON form of a sequence together with its tiling */
+export interface EncodedSequence {
+  version: 1;
+  tiling: EncodedTiling;
+  /** Drop order as indices into tiling.pieces (may cover only some pieces) */
+  order: number[];
+}
+
+/** Options for encoding and decoding tilings and sequences */
+export interface EncodingOptions {
+  /** Piece set of the tiling (default: tetrominoes; decoding finds the built-in sets by name) */
+  pieceSet?: PieceSet;
+}
+
+/**
+ * Precomputed tilings and drop orders for every minute of the day
+ * (see solution-bank.ts)
+ */
+export interface SolutionBank {
+  /** 2 since the colon is tiled in (see TimeGridOptions.colon) */
+  version: 2;
+  /** Seed the bank was built from; building again from it gives the same bank */
+  seed: number | string;
+  /** Candidate tilings solved per time; the best one is kept */
+  candidates: number;
+  /** Encoded sequence strings (see encoding.ts), index = hours * 60 + minutes */
+  entries: string[];
+}
+
+/** Options for building a solution bank */
+export interface SolutionBankOptions {
+  /** Base seed (default: Date.now(), recorded in the bank) */
+  seed?: number | string;
+  /** Candidate tilings solved per time (default: 4) */
+  candidates?: number;
+  /** Called after each time is done, e.g. to print progress */
+  onProgress?: (done: number, total: number) => void;
+}
+
+/** Looks up the banked tiling and sequence of a time */
+export interface SolutionBankLookup {
+  /** Seed the bank was built from */
+  seed: number | string;
+  /** Decode the entry for a time (hours 0-23) */
+  get(hours: number, minutes: number): { tile: TileResult; sequence: SequenceResult };
+}
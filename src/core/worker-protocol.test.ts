@@ -0,0 +1,128 @@
+/// <reference types="node" />
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { MessageChannel, type MessagePort } from "node:worker_threads";
+import {
+  attachSolverWorker,
+  SolverClient,
+  serializeTileResult,
+  deserializeTileResult,
+  serializeSequenceResult,
+  deserializeSequenceResult,
+  type SolverPort,
+} from "./worker-protocol";
+import { tileTimeGrid, retileTimeGrid, tileText } from "./solver";
+import { sequencePieces, sequenceChangedPieces } from "./sequencer";
+
+describe("tile/sequence serialization", () => {
+  it("should round-trip a TileResult with shared piece references", () => {
+    const tile = tileTimeGrid(12, 34, { seed: 42 });
+    const restored = deserializeTileResult(JSON.parse(JSON.stringify(serializeTileResult(tile))));
+
+    expect(restored.pieces).toEqual(tile.pieces);
+    for (let r = 0; r < tile.grid.length; r++) {
+      for (let c = 0; c < tile.grid[r].length; c++) {
+        expect(restored.grid[r][c]).toBe(restored.pieces[tile.pieces.indexOf(tile.grid[r][c]!)]);
+      }
+    }
+  });
+
+  it("should round-trip a SequenceResult onto the tile's pieces", () => {
+    const tile = tileTimeGrid(12, 34, { seed: 42 });
+    const sequence = sequencePieces(tile);
+    const restoredTile = deserializeTileResult(serializeTileResult(tile));
+    const restored = deserializeSequenceResult(serializeSequenceResult(sequence, tile.pieces), restoredTile.pieces);
+
+    expect(restored).toEqual(sequence);
+    expect(restored.sequence[0].piece).toBe(restoredTile.pieces[tile.pieces.indexOf(sequence.sequence[0].piece)]);
+  });
+});
+
+describe("SolverClient over worker_threads", () => {
+  const ports: MessagePort[] = [];
+
+  // A MessageChannel stands in for the Worker: messages are structured-cloned as in the browser
+  function connect(): SolverClient {
+    const { port1, port2 } = new MessageChannel();
+    ports.push(port1, port2);
+    attachSolverWorker(port2 as unknown as SolverPort);
+    return new SolverClient(port1 as unknown as SolverPort);
+  }
+
+  afterEach(() => {
+    ports.splice(0).forEach((port) => port.close());
+  });
+
+  it("should return the same tiling and sequence as solving in-thread", async () => {
+    const client = connect();
+    const { tile, sequence } = await client.solve(12, 34, 42);
+
+    const expectedTile = tileTimeGrid(12, 34, { seed: 42 });
+    expect(tile.success).toBe(true);
+    expect(tile.pieces).toEqual(expectedTile.pieces);
+    expect(sequence).toEqual(sequencePieces(expectedTile));
+  });
+
+  it("should pass solver options through", async () => {
+    const client = connect();
+    const { tile } = await client.solve(38, 30, 42, { extendedHours: true });
+
+    expect(tile.success).toBe(true);
+  });
+
+  it("should reject with the worker's error message", async () => {
+    const client = connect();
+
+    await expect(client.solve(24, 0, 42)).rejects.toThrow("Invalid hours: 24. Must be an integer 0-23.");
+  });
+
+  it("should handle concurrent requests independently", async () => {
+    const client = connect();
+    const [a, b] = await Promise.all([client.solve(12, 34, 1), client.solve(23, 59, 2)]);
+
+    expect(a.tile.pieces).toEqual(tileTimeGrid(12, 34, { seed: 1 }).pieces);
+    expect(b.tile.pieces).toEqual(tileTimeGrid(23, 59, { seed: 2 }).pieces);
+  });
+
+  it("should re-tile from the previous tile and sequence only the new pieces", async () => {
+    const client = connect();
+    const { tile: previous } = await client.solve(12, 34, 42);
+    const { tile, sequence } = await client.retile(previous, 12, 35, 42);
+
+    const expectedTile = retileTimeGrid(previous, 12, 35, { seed: 42 });
+    expect(tile.pieces).toEqual(expectedTile.pieces);
+    expect(sequence).toEqual(sequenceChangedPieces(expectedTile, previous));
+    expect(sequence.sequence.length).toBeLessThan(tile.pieces.length);
+  });
+
+  it("should tile and sequence text", async () => {
+    const client = connect();
+    const { tile, sequence } = await client.solveText("19-10", 42);
+
+    const expectedTile = tileText("19-10", { seed: 42 });
+    expect(tile.success).toBe(true);
+    expect(tile.pieces).toEqual(expectedTile.pieces);
+    expect(sequence).toEqual(sequencePieces(expectedTile));
+  });
+
+  it("should reject when aborted", async () => {
+    const client = connect();
+    const controller = new AbortController();
+    const solve = client.solve(12, 34, 42, undefined, controller.signal);
+    controller.abort();
+
+    await expect(solve).rejects.toThrow();
+  });
+
+  it("should remove the abort listener once a request settles", async () => {
+    const client = connect();
+    const controller = new AbortController();
+    const addListener = vi.spyOn(controller.signal, "addEventListener");
+    const removeListener = vi.spyOn(controller.signal, "removeEventListener");
+
+    await client.solve(12, 34, 42, undefined, controller.signal);
+    await expect(client.solve(24, 0, 42, undefined, controller.signal)).rejects.toThrow();
+
+    expect(addListener).toHaveBeenCalledTimes(2);
+    expect(removeListener.mock.calls).toEqual(addListener.mock.calls.map(([type, listener]) => [type, listener]));
+  });
+});
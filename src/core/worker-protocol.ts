@@ -0,0 +1,267 @@
+import type {
+  PlacedTetromino,
+  TileResult,
+  SequenceResult,
+  SequencedPiece,
+  TimeGridOptions,
+  TextOptions,
+} from "./types";
+import { tileTimeGridAsync, retileTimeGridAsync, tileTextAsync } from "./solver";
+import { sequencePieces, sequenceChangedPieces } from "./sequencer";
+
+/**
+ * Message protocol for solving HH:MM off the main thread.
+ *
+ * The UI posts a solve request; the worker tiles + sequences the time and
+ * replies with both results in serialized form (piece references replaced by
+ * indices into `pieces`). Works over a Web Worker, a worker scope or a Node
+ * worker_threads MessagePort.
+ *
+ * A solve request may carry the previously displayed tile: the worker then
+ * re-tiles incrementally and the sequence only holds the pieces that changed.
+ * A solveText request tiles a line of text (see tileText) instead of a time.
+ */
+
+/**
+ * Solver options that can cross a worker boundary: the seed is sent separately,
+ * and a custom RNG (a function) cannot be cloned, so workers use the default
+ */
+export type WorkerSolveOptions = Omit<TimeGridOptions, "seed" | "random">;
+
+/** Text options that can cross a worker boundary (see WorkerSolveOptions) */
+export type WorkerTextOptions = Omit<TextOptions, "seed" | "random">;
+
+export type SolverRequest =
+  | {
+      type: "solve";
+      id: number;
+      hours: number;
+      minutes: number;
+      seed: number | string;
+      options?: WorkerSolveOptions;
+      previous?: SerializedTileResult;
+    }
+  | { type: "solveText"; id: number; text: string; seed: number | string; options?: WorkerTextOptions }
+  | { type: "cancel"; id: number };
+
+export type SolverResponse =
+  | { type: "result"; id: number; tile: SerializedTileResult; sequence: SerializedSequenceResult }
+  | { type: "error"; id: number; message: string };
+
+/** TileResult with grid cells stored as indices into `pieces` (-1 = empty) */
+export interface SerializedTileResult extends Omit<TileResult, "grid"> {
+  grid: number[][];
+}
+
+/** SequencedPiece with the piece stored as an index into the tile's `pieces` */
+export interface SerializedSequencedPiece extends Omit<SequencedPiece, "piece"> {
+  pieceIndex: number;
+}
+
+export interface SerializedSequenceResult extends Omit<SequenceResult, "sequence"> {
+  sequence: SerializedSequencedPiece[];
+}
+
+/** The parts of Worker / MessagePort the protocol relies on */
+export interface SolverPort {
+  postMessage(message: unknown): void;
+  addEventListener(type: "message", listener: (event: { data: unknown }) => void): void;
+  /** MessagePorts only deliver messages after start() */
+  start?(): void;
+}
+
+export function serializeTileResult(result: TileResult): SerializedTileResult {
+  const indexById = new Map(result.pieces.map((piece, index) => [piece.id, index]));
+  return {
+    ...result,
+    grid: result.grid.map((row) => row.map((piece) => (piece ? indexById.get(piece.id) ?? -1 : -1))),
+  };
+}
+
+export function deserializeTileResult(serialized: SerializedTileResult): TileResult {
+  const pieces = serialized.pieces;
+  return {
+    ...serialized,
+    grid: serialized.grid.map((row) => row.map((index) => (index >= 0 ? pieces[index] : null))),
+  };
+}
+
+export function serializeSequenceResult(result: SequenceResult, pieces: PlacedTetromino[]): SerializedSequenceResult {
+  const indexById = new Map(pieces.map((piece, index) => [piece.id, index]));
+  return {
+    ...result,
+    sequence: result.sequence.map(({ piece, ...rest }) => ({ ...rest, pieceIndex: indexById.get(piece.id) ?? -1 })),
+  };
+}
+
+/** Rebuild a SequenceResult whose pieces are the same objects as the tile's pieces */
+export function deserializeSequenceResult(
+  serialized: SerializedSequenceResult,
+  pieces: PlacedTetromino[]
+): SequenceResult {
+  return {
+    ...serialized,
+    sequence: serialized.sequence.map(({ pieceIndex, ...rest }) => ({ ...rest, piece: pieces[pieceIndex] })),
+  };
+}
+
+/**
+ * Serve solve requests on a port (the worker side of the protocol).
+ * Requests are solved with the async solver so cancel messages are picked up mid-solve.
+ */
+export function attachSolverWorker(port: SolverPort): void {
+  const inFlight = new Map<number, AbortController>();
+
+  port.addEventListener("message", async (event) => {
+    const request = event.data as SolverRequest;
+
+    if (request.type === "cancel") {
+      inFlight.get(request.id)?.abort();
+      inFlight.delete(request.id);
+      return;
+    }
+
+    const controller = new AbortController();
+    inFlight.set(request.id, controller);
+
+    try {
+      const solve = { seed: request.seed, signal: controller.signal };
+      const previous = request.type === "solve" && request.previous && deserializeTileResult(request.previous);
+      let tile: TileResult;
+      if (request.type === "solveText") {
+        tile = await tileTextAsync(request.text, { ...request.options, ...solve });
+      } else {
+        const options = { ...request.options, ...solve };
+        tile = previous
+          ? await retileTimeGridAsync(previous, request.hours, request.minutes, options)
+          : await tileTimeGridAsync(request.hours, request.minutes, options);
+      }
+      const sequence = previous ? sequenceChangedPieces(tile, previous) : sequencePieces(tile);
+      const response: SolverResponse = {
+        type: "result",
+        id: request.id,
+        tile: serializeTileResult(tile),
+        sequence: serializeSequenceResult(sequence, tile.pieces),
+      };
+      port.postMessage(response);
+    } catch (error) {
+      // The client already gave up on cancelled requests
+      if (controller.signal.aborted) return;
+      const response: SolverResponse = {
+        type: "error",
+        id: request.id,
+        message: error instanceof Error ? error.message : String(error),
+      };
+      port.postMessage(response);
+    } finally {
+      inFlight.delete(request.id);
+    }
+  });
+
+  port.start?.();
+}
+
+/**
+ * Main-thread side of the protocol: posts solve requests and resolves
+ * them with deserialized results.
+ */
+export class SolverClient {
+  private port: SolverPort;
+  private nextId = 0;
+  private pending = new Map<
+    number,
+    {
+      resolve: (value: { tile: TileResult; sequence: SequenceResult }) => void;
+      reject: (error: unknown) => void;
+      /** Removes the abort listener once the request settles */
+      cleanup: () => void;
+    }
+  >();
+
+  constructor(port: SolverPort) {
+    this.port = port;
+    this.port.addEventListener("message", (event) => this.handleResponse(event.data as SolverResponse));
+    this.port.start?.();
+  }
+
+  /**
+   * Tile and sequence HH:MM in the worker.
+   * Aborting the signal rejects with the signal's reason and cancels the worker solve.
+   */
+  solve(
+    hours: number,
+    minutes: number,
+    seed: number | string,
+    options?: WorkerSolveOptions,
+    signal?: AbortSignal
+  ): Promise<{ tile: TileResult; sequence: SequenceResult }> {
+    return this.request({ type: "solve", hours, minutes, seed, options }, signal);
+  }
+
+  /**
+   * Re-tile HH:MM in the worker starting from the tile currently on screen
+   * (see retileTimeGrid). The sequence only contains the new pieces.
+   */
+  retile(
+    previous: TileResult,
+    hours: number,
+    minutes: number,
+    seed: number | string,
+    options?: WorkerSolveOptions,
+    signal?: AbortSignal
+  ): Promise<{ tile: TileResult; sequence: SequenceResult }> {
+    const fields = { hours, minutes, seed, options, previous: serializeTileResult(previous) };
+    return this.request({ type: "solve", ...fields }, signal);
+  }
+
+  /** Tile and sequence a line of text in the worker (see tileText) */
+  solveText(
+    text: string,
+    seed: number | string,
+    options?: WorkerTextOptions,
+    signal?: AbortSignal
+  ): Promise<{ tile: TileResult; sequence: SequenceResult }> {
+    return this.request({ type: "solveText", text, seed, options }, signal);
+  }
+
+  private request(
+    fields:
+      | Omit<Extract<SolverRequest, { type: "solve" }>, "id">
+      | Omit<Extract<SolverRequest, { type: "solveText" }>, "id">,
+    signal?: AbortSignal
+  ): Promise<{ tile: TileResult; sequence: SequenceResult }> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    const id = ++this.nextId;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        if (!this.pending.delete(id)) return;
+        const cancel: SolverRequest = { type: "cancel", id };
+        this.port.postMessage(cancel);
+        reject(signal?.reason);
+      };
+      // A long-lived signal would otherwise keep one listener per settled request
+      const cleanup = () => signal?.removeEventListener("abort", onAbort);
+      this.pending.set(id, { resolve, reject, cleanup });
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const request: SolverRequest = { ...fields, id };
+      this.port.postMessage(request);
+    });
+  }
+
+  private handleResponse(response: SolverResponse) {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+    pending.cleanup();
+
+    if (response.type === "error") {
+      pending.reject(new Error(response.message));
+      return;
+    }
+
+    const tile = deserializeTileResult(response.tile);
+    pending.resolve({ tile, sequence: deserializeSequenceResult(response.sequence, tile.pieces) });
+  }
+}
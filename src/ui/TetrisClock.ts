@@ -1,22 +1,39 @@
 import {
-  DIGIT_ROWS,
-  DIGIT_COLS,
-  TIME_ROWS,
   TIME_COLS,
-  TIME_DIGIT_GAP_COLS,
-  TIME_COLON_GAP_COLS,
-  tileTimeGrid,
-  sequencePieces,
+  BLOCK_FONT,
+  getFont,
+  fontNames,
+  timeLayout,
+  textLayout,
+  type Font,
+  type GlyphLayout,
+  type Meridiem,
+  SolverClient,
   estimateAnimationDurationMs,
+  loadSolutionBank,
+  type SolutionBankLookup,
   type TileResult,
   type SequenceResult,
   type SequencedPiece,
-  TETROMINOES,
+  type PlacedTetromino,
+  type WorkerSolveOptions,
+  TETROMINO_SET,
   getAbsoluteCells,
 } from "../core";
-import { getModeFromUrl, getTargetDateFromUrl, getCountdownTime, getNextNewYear, type ClockMode } from "./countdown";
-import { parseSpeedParam } from "../utils/url-helpers";
-import { formatHHMM, floorToMinute } from "../utils/time-helpers";
+import {
+  getModeFromUrl,
+  getTargetDateFromUrl,
+  getCountdownTime,
+  isFinalMinute,
+  countdownDisplay,
+  getNextNewYear,
+  getMessageFromUrl,
+  type ClockMode,
+  type CountdownTime,
+} from "./countdown";
+import { formatDateText, getDateCycleFromUrl, showsDateAt, type DateStyle } from "./date";
+import { parseSpeedParam, parseFlagParam, parseChoiceParam } from "../utils/url-helpers";
+import { formatHHMM, formatHHMMSS, to12Hour, floorToMinute } from "../utils/time-helpers";
 import { cellKey, parseCellKey } from "../utils/cell-helpers";
 
 // Color mapping for digit tetrominos (lit cells)
@@ -35,14 +52,21 @@ const DIGIT_COLORS: Record<string, string> = {
 // Single color for background tetrominoes (unlit cells)
 const BACKGROUND_COLOR = "#1a3a5c"; // Dark blue
 
+// Colors for extra mask regions (labels 2, 3, ...) such as outlines, inner fills or the colon
+const REGION_COLORS = ["#F4F1E8", "#FED340", "#C48EFD", "#21C36F"];
+
+/** Lit pieces are colored by type, unlit pieces uniformly, extra regions by label */
+function pieceColor(piece: PlacedTetromino): string {
+  if (piece.label === 0) return BACKGROUND_COLOR;
+  if (piece.label === 1) return DIGIT_COLORS[piece.type] ?? DIGIT_COLORS.I;
+  return REGION_COLORS[(piece.label - 2) % REGION_COLORS.length];
+}
+
 // Visual playfield sizing (keep digit solver size unchanged)
 const FIELD_TOP_PADDING_ROWS = 10;
-const FIELD_ROWS = TIME_ROWS + FIELD_TOP_PADDING_ROWS;
 
-// Unified display sizing
-const FIELD_COLS = TIME_COLS;
-const DIGIT_GAP_COLS = TIME_DIGIT_GAP_COLS;
-const COLON_GAP_COLS = TIME_COLON_GAP_COLS;
+// The CSS breakpoints size the cells for the default HH:MM field; wider fields shrink them (fitCells)
+const BASE_FIELD_COLS = TIME_COLS;
 
 // Get initial speed from URL parameter (default: 3)
 const getInitialSpeed = (): number => {
@@ -50,6 +74,38 @@ const getInitialSpeed = (): number => {
   return parseSpeedParam(params);
 };
 
+// Digit font (?font=block|seven-segment|rounded|compact, default: block)
+const getInitialFont = (): Font =>
+  getFont(parseChoiceParam(new URLSearchParams(window.location.search), "font", fontNames(), BLOCK_FONT.name)) ??
+  BLOCK_FONT;
+
+// Incremental mode (?incremental=1): keep the time on screen and only re-drop the digits that change
+const getInitialIncremental = (): boolean => parseFlagParam(new URLSearchParams(window.location.search), "incremental");
+
+// Seconds mode (?seconds=1): HH:MM:SS in clock mode, re-dropping the changed digits every second
+const getInitialSeconds = (): boolean => parseFlagParam(new URLSearchParams(window.location.search), "seconds");
+
+// Hour format (?format=24h|12h, default: 24h): 12h shows H:MM with an AM / PM marker in clock mode
+const getInitialTwelveHour = (): boolean =>
+  parseChoiceParam(new URLSearchParams(window.location.search), "format", ["24h", "12h"], "24h") === "12h";
+
+// Date style in date mode (?date=numeric|weekday, default: numeric)
+const getInitialDateStyle = (): DateStyle =>
+  parseChoiceParam(new URLSearchParams(window.location.search), "date", ["numeric", "weekday"], "numeric");
+
+// Date mode alternates between the date and the time every ?cycle=<seconds> (default: date only)
+const getInitialDateCycle = (): number | null => getDateCycleFromUrl();
+
+// Countdown celebration message (?message=HAPPY NEW YEAR, default: none); every character needs a glyph
+const getInitialMessage = (): string | null => {
+  const message = getMessageFromUrl();
+  if (message && !Array.from(message).every((char) => char in BLOCK_FONT.glyphs)) {
+    console.warn(`[tetris-time] ignoring message ${JSON.stringify(message)}: it has characters without a glyph`);
+    return null;
+  }
+  return message;
+};
+
 // Get initial mode from URL parameter (default: 'clock')
 const getInitialMode = (): ClockMode => getModeFromUrl();
 
@@ -64,6 +120,58 @@ const DISPLAY_PAUSE = 5000; // ms to show completed time before clearing
 const ROW_CLEAR_DELAY = 60; // ms between each row clearing
 const FLASH_DURATION = 50; // ms for each flash cycle
 
+// Seconds mode: how often to check the time, and how long the pieces of one tick take to land.
+// Changed pieces rain down straight and overlapping instead of being steered one by one.
+const SECONDS_POLL_MS = 200;
+const TICK_ANIMATION_MS = 700;
+const RAIN_FALL_MS = 300; // from the top of the field to the bottom row
+const RAIN_STAGGER_MS = 40; // at most, between the start of two pieces
+
+// Countdown celebration: the pieces rain down and the rows clear in fireworks this many times,
+// then the pieces rain down once more and stay
+const CELEBRATION_BURSTS = 3;
+const CELEBRATION_RAIN_MS = 2000;
+const FIREWORK_FLASHES = 6; // color bursts of each row before it clears
+
+// Solver budget: a try that runs longer restarts with a derived seed, this many times (see TileOptions.maxRetries)
+const SOLVE_TRY_BUDGET_MS = 1000;
+const SOLVE_RETRIES = 3;
+
+// Precomputed clock times (built by scripts/solution-bank.mjs); without it every time is solved
+const SOLUTION_BANK_URL = "/solution-bank.json";
+
+/** The time to render next, with the seed to solve it and a log line describing why */
+interface RenderTarget {
+  hours: number;
+  minutes: number;
+  /** Set in seconds mode */
+  seconds?: number;
+  /** Set in 12-hour format (hours are 1-12) */
+  meridiem?: Meridiem;
+  /** Set for dates, countdowns of over 99:59 or in their final seconds, and the celebration message */
+  text?: string;
+  /** Set in countdown mode */
+  countdownPhase?: CountdownPhase;
+  seed: number;
+  logMessage: string;
+}
+
+/** Where a countdown is: counting minutes (HH:MM or days and hours), counting its final seconds, or finished */
+type CountdownPhase = "minutes" | "seconds" | "finished";
+
+function countdownPhase(countdown: CountdownTime): CountdownPhase {
+  if (countdown.finished) return "finished";
+  return isFinalMinute(countdown) ? "seconds" : "minutes";
+}
+
+/** What a target puts on screen, e.g. "09:45", "9:45PM" or "19-10" */
+function targetDisplay(target: RenderTarget): string {
+  if (target.text !== undefined) return target.text;
+  const { hours, minutes, seconds, meridiem } = target;
+  const time = seconds === undefined ? formatHHMM(hours, minutes) : formatHHMMSS(hours, minutes, seconds);
+  return `${time}${meridiem ?? ""}`;
+}
+
 class AnimationCancelled extends Error {
   constructor() {
     super("Animation cancelled");
@@ -74,21 +182,40 @@ class AnimationCancelled extends Error {
 class TetrisClock {
   private container: HTMLElement;
   private grid: HTMLElement | null = null;
-  private colonElement: HTMLElement | null = null;
-  private currentTime: { hours: number; minutes: number } | null = null;
+  /** What is on screen or being animated (see targetDisplay) */
+  private currentDisplay: string | null = null;
   private isAnimating = false;
   private lockedCells: Set<string> = new Set();
-  private countdownFinished = false;
+  /** The countdown phase of the latest update (null outside countdowns) */
+  private countdownPhase: CountdownPhase | null = null;
   private audio: HTMLAudioElement | null = null;
   private settingsMenu: HTMLElement | null = null;
   private settingsDropdown: HTMLElement | null = null;
   private isSettingsOpen = false;
   private animationToken = 0;
+  private solverAbort: AbortController | null = null;
+  // Tiling + sequencing run in a worker so they never stall the animation frame loop
+  private solver = new SolverClient(new Worker(new URL("./solver.worker.ts", import.meta.url), { type: "module" }));
 
   // Dynamic settings
   private speed: number = getInitialSpeed();
   private mode: ClockMode = getInitialMode();
   private targetDate: Date | null = getInitialTargetDate();
+  private incremental = getInitialIncremental();
+  private font = getInitialFont();
+  private seconds = getInitialSeconds();
+  private twelveHour = getInitialTwelveHour();
+  private dateStyle = getInitialDateStyle();
+  private dateCycle = getInitialDateCycle();
+  private message = getInitialMessage();
+  /** Where the digits and gaps sit in the solver grid (the same for every time with two-digit hours) */
+  private layout: GlyphLayout = this.displayLayout();
+  /** The tile on screen in incremental and seconds mode (null once the grid is cleared) */
+  private displayedTile: TileResult | null = null;
+  /** Precomputed clock times, once loaded */
+  private bank: SolutionBankLookup | null = null;
+  /** Whether the bank has been requested (it is only fetched once a display can use it) */
+  private bankRequested = false;
 
   constructor(containerId: string) {
     const container = document.getElementById(containerId);
@@ -106,6 +233,8 @@ class TetrisClock {
   private cancelCurrentAnimation(clear = true) {
     this.animationToken++;
     this.isAnimating = false;
+    this.solverAbort?.abort();
+    this.solverAbort = null;
     if (clear) this.clearGrid();
   }
 
@@ -128,35 +257,145 @@ class TetrisClock {
     return this.scale(300, 0);
   }
 
+  /** Playfield size: the time grid plus the spawn area above it */
+  private get fieldRows(): number {
+    return this.layout.rows + FIELD_TOP_PADDING_ROWS;
+  }
+  private get fieldCols(): number {
+    return this.layout.cols;
+  }
+
+  /** Seconds are shown in clock mode only */
+  private showsSeconds(): boolean {
+    return this.seconds && this.mode === "clock";
+  }
+
+  /** Keep the time on screen and only re-drop what changes (incremental, seconds and date mode) */
+  private keepsTimeOnScreen(): boolean {
+    return this.incremental || this.showsSeconds() || this.mode === "date";
+  }
+
+  /** 12-hour time is shown in clock and date mode (not in countdowns) */
+  private showsMeridiem(): boolean {
+    return this.twelveHour && this.mode !== "countdown";
+  }
+
+  /** The font if it has every glyph of the text (most fonts only have digits), else the block font */
+  private textFont(text: string): Font {
+    return Array.from(text).every((char) => char.toUpperCase() in this.font.glyphs) ? this.font : BLOCK_FONT;
+  }
+
+  /** The hours of a clock time as displayed: 1-12 with AM / PM in 12-hour format */
+  private clockHours(date: Date): { hours: number; meridiem?: Meridiem } {
+    return this.showsMeridiem() ? to12Hour(date.getHours()) : { hours: date.getHours() };
+  }
+
+  /** The layout of the display; only one-digit hours in 12-hour format (no leading zero) change it */
+  private displayLayout(hours = 10): GlyphLayout {
+    return timeLayout(hours, 0, {
+      font: this.font,
+      seconds: this.showsSeconds() ? 0 : undefined,
+      meridiem: this.showsMeridiem() ? "AM" : undefined,
+      leadingZero: !this.showsMeridiem(),
+      colon: true,
+    });
+  }
+
   private init() {
     this.container.innerHTML = "";
     this.container.className = "clock-container";
 
-    // Single unified grid
-    this.grid = this.createGrid(FIELD_COLS);
-    this.container.appendChild(this.grid);
-
-    // Colon overlay (still visual-only)
-    this.colonElement = this.createColon();
-    this.container.appendChild(this.colonElement);
-    this.positionColon();
+    this.buildField();
 
-    // Reposition colon on resize (handles orientation changes and responsive breakpoints)
-    window.addEventListener("resize", () => this.positionColon());
+    // Refit the cells on resize (handles orientation changes and responsive breakpoints)
+    window.addEventListener("resize", () => this.fitCells());
 
     // Start the clock
     this.updateTime();
-    setInterval(() => this.updateTime(), 1000);
+    this.poll();
+  }
+
+  /** Whether a countdown is in its final minute, where it shows the seconds */
+  private showsCountdownSeconds(): boolean {
+    if (this.mode !== "countdown" || !this.targetDate) return false;
+    return countdownPhase(getCountdownTime(this.targetDate)) === "seconds";
+  }
+
+  /**
+   * Check the time every second, or every SECONDS_POLL_MS when the display
+   * changes every second (seconds mode and the final minute of a countdown).
+   */
+  private poll() {
+    const interval = this.showsSeconds() || this.showsCountdownSeconds() ? SECONDS_POLL_MS : 1000;
+    window.setTimeout(() => {
+      this.updateTime();
+      this.poll();
+    }, interval);
+  }
+
+  /** Whether a countdown has reached its final seconds or its target since the current update started */
+  private countdownPhaseChanged(): boolean {
+    if (this.countdownPhase === null || !this.targetDate) return false;
+    return countdownPhase(getCountdownTime(this.targetDate)) !== this.countdownPhase;
+  }
+
+  /** (Re)build the grid for a layout */
+  private buildField(layout = this.displayLayout()) {
+    this.grid?.remove();
+
+    this.layout = layout;
+
+    // Single unified grid (the colons are tiled into it)
+    this.grid = this.createGrid(this.fieldCols);
+    this.container.appendChild(this.grid);
+    this.fitCells();
+  }
+
+  /**
+   * Shrink the cells of layouts wider than HH:MM (seconds, wide fonts) so the
+   * field stays as wide as the CSS breakpoints intend.
+   */
+  private fitCells() {
+    const root = getComputedStyle(document.documentElement);
+    const scale = Math.min(1, BASE_FIELD_COLS / this.fieldCols);
+    const px = parseFloat(root.getPropertyValue("--cell-size"));
+    if (scale < 1 && px) {
+      this.container.style.setProperty("--cell-size", `${Math.floor(px * scale)}px`);
+    } else {
+      this.container.style.removeProperty("--cell-size");
+    }
+  }
+
+  private async loadSolutionBank() {
+    this.bankRequested = true;
+    try {
+      const response = await fetch(SOLUTION_BANK_URL);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      this.bank = loadSolutionBank(await response.json());
+    } catch (error) {
+      console.warn("[tetris-time] solution bank unavailable, solving every time:", error);
+    }
+  }
+
+  /**
+   * The bank to take times from: clock mode only, 24-hour, in the block font, with every digit re-dropped.
+   * The first display that can use it starts loading it, and times are solved until it has loaded.
+   */
+  private activeBank(): SolutionBankLookup | null {
+    const bankable = !this.keepsTimeOnScreen() && !this.showsMeridiem() && this.font === BLOCK_FONT;
+    if (this.mode !== "clock" || !bankable) return null;
+    if (!this.bankRequested) this.loadSolutionBank();
+    return this.bank;
   }
 
   private createGrid(cols: number): HTMLElement {
     const grid = document.createElement("div");
     grid.className = "digit-grid";
     grid.style.gridTemplateColumns = `repeat(${cols}, 1fr)`;
-    grid.style.gridTemplateRows = `repeat(${FIELD_ROWS}, 1fr)`;
+    grid.style.gridTemplateRows = `repeat(${this.fieldRows}, 1fr)`;
 
     // Create empty cells
-    for (let row = 0; row < FIELD_ROWS; row++) {
+    for (let row = 0; row < this.fieldRows; row++) {
       for (let col = 0; col < cols; col++) {
         const cell = document.createElement("div");
         cell.className = "cell empty";
@@ -169,39 +408,6 @@ class TetrisClock {
     return grid;
   }
 
-  private createColon(): HTMLElement {
-    const colon = document.createElement("div");
-    colon.className = "colon";
-    colon.innerHTML = '<div class="colon-dot"></div><div class="colon-dot"></div>';
-    return colon;
-  }
-
-  private positionColon() {
-    if (!this.colonElement) return;
-    // Place colon in the middle of the HH|MM gap.
-    // Layout: [d0][gap][d1][colonGap][d2][gap][d3]
-    const colonGapStartCol = DIGIT_COLS * 2 + DIGIT_GAP_COLS;
-    const colonCenterCol = colonGapStartCol + (COLON_GAP_COLS - 1) / 2;
-
-    // Read CSS variables from the container for responsive sizing
-    const styles = getComputedStyle(this.container);
-    const CELL_PX = parseFloat(styles.getPropertyValue("--cell-size")) || 24;
-    const GAP_PX = parseFloat(styles.getPropertyValue("--cell-gap")) || 2;
-    const PADDING_PX = parseFloat(styles.getPropertyValue("--grid-padding")) || 8;
-    const COLON_WIDTH_PX = parseFloat(styles.getPropertyValue("--colon-dot-size")) || 16;
-
-    // Align colon vertically with the digit area (not the padded spawn area).
-    // The unified solver grid includes TIME_ROWS total rows; digits occupy the bottom DIGIT_ROWS
-    // of that (i.e., TIME_ROWS - DIGIT_ROWS rows of unlit background above the digits).
-    const digitRowOffset = TIME_ROWS - DIGIT_ROWS;
-    const digitAreaCenterRow = FIELD_TOP_PADDING_ROWS + digitRowOffset + (DIGIT_ROWS - 1) / 2;
-    const y = PADDING_PX + digitAreaCenterRow * (CELL_PX + GAP_PX) + CELL_PX / 2;
-
-    const x = PADDING_PX + colonCenterCol * (CELL_PX + GAP_PX) + CELL_PX / 2 - COLON_WIDTH_PX / 2;
-    this.colonElement.style.left = `${x}px`;
-    this.colonElement.style.top = `${y}px`;
-  }
-
   private initAudio() {
     this.audio = new Audio("/Korobeiniki.mp3");
     this.audio.loop = true;
@@ -294,15 +500,19 @@ class TetrisClock {
     countdownButton.textContent = "New Year";
     countdownButton.dataset.mode = "countdown";
 
+    const dateButton = document.createElement("button");
+    dateButton.className = "settings-button";
+    dateButton.textContent = "Date";
+    dateButton.dataset.mode = "date";
+
     // Set active button
-    if (this.mode === "clock") {
-      clockButton.classList.add("active");
-    } else {
-      countdownButton.classList.add("active");
+    for (const button of [clockButton, countdownButton, dateButton]) {
+      button.classList.toggle("active", button.dataset.mode === this.mode);
     }
 
     modeButtons.appendChild(clockButton);
     modeButtons.appendChild(countdownButton);
+    modeButtons.appendChild(dateButton);
     modeSection.appendChild(modeLabel);
     modeSection.appendChild(modeButtons);
 
@@ -378,6 +588,7 @@ class TetrisClock {
 
     clockButton.addEventListener("click", () => this.setMode("clock"));
     countdownButton.addEventListener("click", () => this.setMode("countdown"));
+    dateButton.addEventListener("click", () => this.setMode("date"));
 
     decreaseButton.addEventListener("click", () => this.changeSpeed(-1));
     increaseButton.addEventListener("click", () => this.changeSpeed(1));
@@ -419,6 +630,9 @@ class TetrisClock {
     if (this.mode === "countdown") {
       url.searchParams.set("mode", "countdown");
       url.searchParams.set("to", "newyear");
+    } else if (this.mode === "date") {
+      url.searchParams.set("mode", "date");
+      url.searchParams.delete("to");
     } else {
       url.searchParams.delete("mode");
       url.searchParams.delete("to");
@@ -443,6 +657,9 @@ class TetrisClock {
 
     this.mode = mode;
 
+    // Seconds and the AM / PM marker depend on the mode, so the field may change width
+    this.buildField();
+
     // Update target date for countdown mode
     if (mode === "countdown") {
       this.targetDate = getNextNewYear();
@@ -465,8 +682,8 @@ class TetrisClock {
     this.updateUrlParams();
 
     // Reset countdown state and trigger immediate update
-    this.countdownFinished = false;
-    this.currentTime = null;
+    this.countdownPhase = null;
+    this.currentDisplay = null;
     this.updateTime();
   }
 
@@ -498,36 +715,24 @@ class TetrisClock {
     this.updateUrlParams();
 
     // Trigger immediate update with new speed
-    this.currentTime = null;
+    this.currentDisplay = null;
     this.updateTime();
   }
 
-  private showColon() {
-    if (this.colonElement) {
-      this.colonElement.classList.add("visible");
-    }
-  }
-
-  private hideColon() {
-    if (this.colonElement) {
-      this.colonElement.classList.remove("visible");
-    }
-  }
-
   private getCell(row: number, col: number): HTMLElement | null {
     if (!this.grid) return null;
     return this.grid.querySelector(`[data-row="${row}"][data-col="${col}"]`);
   }
 
-  private clearGrid() {
+  private clearGrid(restartMusic = true) {
     const grid = this.grid;
     if (!grid) return;
 
     this.lockedCells.clear();
-    this.hideColon();
+    this.displayedTile = null;
 
     // Restart music from beginning if playing
-    if (this.audio && !this.audio.paused) {
+    if (restartMusic && this.audio && !this.audio.paused) {
       this.audio.currentTime = 0;
     }
 
@@ -557,137 +762,331 @@ class TetrisClock {
   }
 
   private async updateTime() {
+    // The final seconds and the celebration start on time, cutting short the animation in progress
+    if (this.isAnimating && this.countdownPhaseChanged()) {
+      this.cancelCurrentAnimation(false);
+    }
     if (this.isAnimating) return;
 
     const token = this.animationToken;
 
-    // In countdown mode, stop updating once countdown is finished
-    if (this.countdownFinished) return;
-
-    let targetHours: number;
-    let targetMinutes: number;
-    let seed: number;
-    let logMessage: string;
+    // In countdown mode, stop updating once the celebration has started
+    if (this.countdownPhase === "finished") return;
 
-    if (this.mode === "countdown" && this.targetDate) {
-      // Countdown mode: calculate time remaining
-      const countdown = getCountdownTime(this.targetDate);
-      targetHours = countdown.hours;
-      targetMinutes = countdown.minutes;
-
-      // Use remaining time as seed so each minute gets a unique animation
-      // (like clock mode where seed changes each minute)
-      seed = this.targetDate.getTime() + targetHours * 60 + targetMinutes;
+    // Claim the update before solving: the solver yields to the event loop,
+    // and the 1s interval must not start a second update meanwhile.
+    this.isAnimating = true;
+    const solverAbort = new AbortController();
+    this.solverAbort = solverAbort;
 
-      if (countdown.finished) {
-        this.countdownFinished = true;
-      }
+    let target: RenderTarget;
+    try {
+      target = await this.resolveTarget(solverAbort.signal);
+    } catch (error) {
+      // Aborted by cancelCurrentAnimation, which already released the update
+      if (token !== this.animationToken) return;
+      this.isAnimating = false;
+      console.error("Error updating time:", error);
+      return;
+    }
 
-      logMessage = `[tetris-time] mode=countdown target=${this.targetDate.toISOString()} remaining=${formatHHMM(
-        targetHours,
-        targetMinutes
-      )} finished=${countdown.finished}`;
-    } else {
-      // Clock mode: use current time with fixed-point iteration
-      const baseTime = floorToMinute(new Date());
-      seed = baseTime.getTime();
-
-      // Fixed-point iteration: target minute depends on the duration of animating that target.
-      // This is especially important at slow speeds where animations span multiple minutes.
-      let targetDate = new Date(baseTime);
-      let estimatedMs = 0;
-      for (let i = 0; i < 3; i++) {
-        const h = targetDate.getHours();
-        const m = targetDate.getMinutes();
-        const previewTile = tileTimeGrid(h, m, { seed });
-        const previewSeq = sequencePieces(previewTile);
-        const nudgeDuration = Math.max(this.scale(40, FRAME_MS), Math.floor(this.DROP_DURATION / 3));
-        const rotateDuration = Math.max(this.ROTATE_DURATION, nudgeDuration);
-        estimatedMs = estimateAnimationDurationMs(previewSeq, {
-          fieldTopPaddingRows: FIELD_TOP_PADDING_ROWS,
-          nudgeDurationMs: nudgeDuration,
-          rotateDurationMs: rotateDuration,
-          hardDropDurationMs: this.DROP_DURATION,
-          pieceDelayMs: this.PIECE_DELAY,
-          thinkDurationMs: this.THINK_DURATION,
-          minHardDropDelayMs: FRAME_MS,
-        });
-
-        const nextTarget = new Date(baseTime.getTime() + estimatedMs);
-        if (nextTarget.getHours() === h && nextTarget.getMinutes() === m) {
-          targetDate = nextTarget;
-          break;
-        }
-        targetDate = nextTarget;
-      }
+    const { hours: targetHours, minutes: targetMinutes, seconds: targetSeconds, meridiem, text, seed } = target;
+    this.countdownPhase = target.countdownPhase ?? null;
+    const ticking = target.countdownPhase === "seconds";
+    const celebrating = target.countdownPhase === "finished";
 
-      targetHours = targetDate.getHours();
-      targetMinutes = targetDate.getMinutes();
+    // Skip if we'd render the same target again (clock and date mode).
+    // In countdown mode, keep animating continuously, unless the time stays on screen
+    // or it counts the final seconds.
+    const display = targetDisplay(target);
+    if ((this.mode !== "countdown" || this.keepsTimeOnScreen() || ticking) && this.currentDisplay === display) {
+      this.isAnimating = false;
+      return;
+    }
 
-      const completionAt = new Date(baseTime.getTime() + estimatedMs);
-      const completionAtStr = formatHHMM(completionAt.getHours(), completionAt.getMinutes());
+    this.currentDisplay = display;
 
-      logMessage =
-        `[tetris-time] speed=${this.speed} base=${formatHHMM(baseTime.getHours(), baseTime.getMinutes())} ` +
-        `target=${formatHHMM(targetHours, targetMinutes)} completionAt=${completionAtStr} etaMs=${estimatedMs}`;
+    // The field changes size between the date and the time, and without a leading zero
+    // it narrows and widens as the hours go from 12 to 1 and from 9 to 10
+    const layout =
+      text === undefined ? this.displayLayout(targetHours) : textLayout(text, { font: this.textFont(text) });
+    if (layout.cols !== this.layout.cols || layout.rows !== this.layout.rows) {
+      this.clearGrid();
+      this.buildField(layout);
     }
 
-    // Skip if we'd render the same target time again (clock mode only).
-    // In countdown mode, keep animating continuously.
-    if (
-      this.mode !== "countdown" &&
-      this.currentTime?.hours === targetHours &&
-      this.currentTime?.minutes === targetMinutes
-    ) {
-      return;
+    // The seed (or bank seed and time) replays this exact animation (see core/random.ts).
+    // Seconds ticks re-drop a few digits every second and are not logged, nor are the
+    // final seconds of a countdown, which are solved afresh every second.
+    const previous = this.keepsTimeOnScreen() && !ticking ? this.displayedTile : null;
+    const bank = this.activeBank();
+    if (!ticking && !(previous && this.showsSeconds())) {
+      console.log(`${target.logMessage} ${bank ? `bank=${bank.seed}` : `seed=${seed}`}`);
     }
 
-    this.isAnimating = true;
-    this.currentTime = { hours: targetHours, minutes: targetMinutes };
-
-    console.log(logMessage);
-
     try {
       this.throwIfCancelled(token);
-      // Solve + animate the target time.
+      // Solve + animate the target time (or date).
       const extendedHours = this.mode === "countdown";
-      const tileResult = tileTimeGrid(targetHours, targetMinutes, { seed, extendedHours });
-      const sequenceResult = sequencePieces(tileResult);
+      const { tile: tileResult, sequence: sequenceResult } =
+        text === undefined
+          ? await this.solveTime(
+              targetHours,
+              targetMinutes,
+              seed,
+              {
+                extendedHours,
+                font: this.font,
+                seconds: targetSeconds,
+                meridiem,
+                leadingZero: meridiem === undefined,
+                colon: true,
+                maxDurationMs: SOLVE_TRY_BUDGET_MS,
+                maxRetries: SOLVE_RETRIES,
+              },
+              solverAbort.signal
+            )
+          : await this.solver.solveText(
+              text,
+              seed,
+              { font: this.textFont(text), maxDurationMs: SOLVE_TRY_BUDGET_MS, maxRetries: SOLVE_RETRIES },
+              solverAbort.signal
+            );
+      if (tileResult.stats.retries > 0) {
+        console.warn(`[tetris-time] solved after ${tileResult.stats.retries} retries (seed ${tileResult.stats.seed})`);
+      }
 
       // Animate one unified field
-      await this.animateField(tileResult, sequenceResult, token);
+      if (celebrating) {
+        await this.celebrate(tileResult, sequenceResult, token);
+      } else {
+        const rain = ticking || (previous !== null && this.showsSeconds());
+        await this.animateField(tileResult, sequenceResult, token, previous, rain);
+      }
     } catch (error) {
-      if (error instanceof AnimationCancelled) {
+      if (error instanceof AnimationCancelled || solverAbort.signal.aborted) {
         return;
       }
       console.error("Error updating time:", error);
     } finally {
       // If a newer animation has started/cancelled, don't enqueue work.
-      if (token !== this.animationToken) return;
-      this.isAnimating = false;
-      // Immediately check for next animation instead of waiting for setInterval
-      this.updateTime();
+      if (token === this.animationToken) {
+        this.isAnimating = false;
+        // Immediately check for next animation instead of waiting for setInterval
+        this.updateTime();
+      }
+    }
+  }
+
+  /**
+   * Work out which time to render next and the seed to solve it with.
+   * Preview solves run in the solver worker, so a slow seed never blocks the animation frame loop.
+   */
+  private async resolveTarget(signal: AbortSignal): Promise<RenderTarget> {
+    if (this.mode === "countdown" && this.targetDate) {
+      // Countdown mode: calculate time remaining (HH:MM, "4D 05H", "123 DAYS" or SS, see countdownDisplay)
+      const countdown = getCountdownTime(this.targetDate);
+      const display = countdownDisplay(countdown);
+      const { hours, minutes } = "text" in display ? { hours: 0, minutes: 0 } : display;
+      const remaining = isFinalMinute(countdown)
+        ? formatHHMMSS(0, 0, countdown.seconds)
+        : formatHHMM(countdown.hours, countdown.minutes);
+
+      return {
+        hours,
+        minutes,
+        // Once finished, the celebration shows the message (or 00:00)
+        text: countdown.finished ? (this.message ?? undefined) : "text" in display ? display.text : undefined,
+        countdownPhase: countdownPhase(countdown),
+        // Use the remaining time in seconds as seed so each minute gets its own animation
+        // (like clock mode where seed changes each minute): minutes are multiples of 60
+        // and the final seconds 0-59, so no minute shares a seed with a final second
+        seed:
+          this.targetDate.getTime() +
+          ((countdown.days * 24 + countdown.hours) * 60 + countdown.minutes) * 60 +
+          countdown.seconds,
+        logMessage:
+          `[tetris-time] mode=countdown target=${this.targetDate.toISOString()} ` +
+          `remaining=${countdown.days > 0 ? `${countdown.days}d${remaining}` : remaining} finished=${countdown.finished}`,
+      };
+    }
+
+    if (this.mode === "date" && showsDateAt(new Date(), this.dateCycle)) {
+      // Date mode: one seed per day; between the dates of a cycle, the time is resolved as in clock mode
+      const now = new Date();
+      const text = formatDateText(now, this.dateStyle);
+      const { hours, meridiem } = this.clockHours(now);
+      return {
+        hours,
+        minutes: now.getMinutes(),
+        meridiem,
+        text,
+        seed: new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime(),
+        logMessage: `[tetris-time] mode=date target=${text}`,
+      };
+    }
+
+    if (this.showsSeconds()) {
+      // Seconds mode keeps the time on screen and each tick lands within the second,
+      // so it shows the current time (one seed per minute, like clock mode)
+      const now = new Date();
+      const { hours, meridiem } = this.clockHours(now);
+      const [minutes, seconds] = [now.getMinutes(), now.getSeconds()];
+      return {
+        hours,
+        minutes,
+        seconds,
+        meridiem,
+        seed: floorToMinute(now).getTime(),
+        logMessage: `[tetris-time] speed=${this.speed} target=${formatHHMMSS(hours, minutes, seconds)}${meridiem ?? ""}`,
+      };
     }
+
+    // Clock mode: use current time with fixed-point iteration
+    const baseTime = floorToMinute(new Date());
+    const seed = baseTime.getTime();
+
+    // Fixed-point iteration: target minute depends on the duration of animating that target.
+    // This is especially important at slow speeds where animations span multiple minutes.
+    let targetDate = new Date(baseTime);
+    let estimatedMs = 0;
+    for (let i = 0; i < 3; i++) {
+      const { hours: h, meridiem } = this.clockHours(targetDate);
+      const m = targetDate.getMinutes();
+      const { sequence: previewSeq } = await this.solveTime(
+        h,
+        m,
+        seed,
+        {
+          font: this.font,
+          meridiem,
+          leadingZero: meridiem === undefined,
+          colon: true,
+          maxDurationMs: SOLVE_TRY_BUDGET_MS,
+          maxRetries: SOLVE_RETRIES,
+        },
+        signal
+      );
+      const nudgeDuration = Math.max(this.scale(40, FRAME_MS), Math.floor(this.DROP_DURATION / 3));
+      const rotateDuration = Math.max(this.ROTATE_DURATION, nudgeDuration);
+      estimatedMs = estimateAnimationDurationMs(previewSeq, {
+        fieldTopPaddingRows: FIELD_TOP_PADDING_ROWS,
+        nudgeDurationMs: nudgeDuration,
+        rotateDurationMs: rotateDuration,
+        hardDropDurationMs: this.DROP_DURATION,
+        pieceDelayMs: this.PIECE_DELAY,
+        thinkDurationMs: this.THINK_DURATION,
+        minHardDropDelayMs: FRAME_MS,
+      });
+
+      const nextTarget = new Date(baseTime.getTime() + estimatedMs);
+      if (nextTarget.getHours() === targetDate.getHours() && nextTarget.getMinutes() === m) {
+        targetDate = nextTarget;
+        break;
+      }
+      targetDate = nextTarget;
+    }
+
+    const { hours, meridiem } = this.clockHours(targetDate);
+    const minutes = targetDate.getMinutes();
+
+    const completionAt = new Date(baseTime.getTime() + estimatedMs);
+    const completionAtStr = formatHHMM(completionAt.getHours(), completionAt.getMinutes());
+
+    return {
+      hours,
+      minutes,
+      meridiem,
+      seed,
+      logMessage:
+        `[tetris-time] speed=${this.speed} base=${formatHHMM(baseTime.getHours(), baseTime.getMinutes())} ` +
+        `target=${formatHHMM(hours, minutes)}${meridiem ?? ""} completionAt=${completionAtStr} etaMs=${estimatedMs}`,
+    };
+  }
+
+  /**
+   * Solve a time in the worker, or look it up in the solution bank in clock mode.
+   * In incremental and seconds mode, re-tile the tile on screen so the sequence
+   * only holds the pieces of the digits that change.
+   */
+  private solveTime(
+    hours: number,
+    minutes: number,
+    seed: number,
+    options: WorkerSolveOptions | undefined,
+    signal: AbortSignal
+  ): Promise<{ tile: TileResult; sequence: SequenceResult }> {
+    const bank = this.activeBank();
+    if (bank) {
+      return Promise.resolve(bank.get(hours, minutes));
+    }
+    if (this.keepsTimeOnScreen() && this.displayedTile) {
+      return this.solver.retile(this.displayedTile, hours, minutes, seed, options, signal);
+    }
+    return this.solver.solve(hours, minutes, seed, options, signal);
   }
 
-  private async animateField(_tileResult: TileResult, seqResult: SequenceResult, token: number): Promise<void> {
-    if (!seqResult.success) return;
+  /** Remove the pieces of `previous` that `next` does not reuse, leaving the rest on screen */
+  private clearReplacedPieces(previous: TileResult, next: TileResult) {
+    const kept = new Set(next.pieces.map((piece) => piece.id));
+    for (const piece of previous.pieces) {
+      if (kept.has(piece.id)) continue;
+      for (const cell of piece.cells) {
+        const row = cell.row + FIELD_TOP_PADDING_ROWS;
+        this.lockedCells.delete(cellKey(row, cell.col));
+        this.setCellEmptyIfUnlocked(row, cell.col);
+      }
+    }
+  }
+
+  /**
+   * Drop the sequenced pieces into the field. Without `previous` the field is
+   * cleared first; with it (incremental mode) only the replaced pieces are.
+   * With `rain` the pieces rain down within the second and stay on screen
+   * (seconds ticks and the final seconds of a countdown).
+   */
+  private async animateField(
+    tileResult: TileResult,
+    seqResult: SequenceResult,
+    token: number,
+    previous: TileResult | null = null,
+    rain = false
+  ): Promise<void> {
+    if (!tileResult.success) {
+      throw new Error(tileResult.error ?? "Tiling failed");
+    }
+    if (!seqResult.success) {
+      throw new Error("No drop order found for the tiling");
+    }
 
     this.throwIfCancelled(token);
 
-    this.clearGrid();
+    if (previous) {
+      this.clearReplacedPieces(previous, tileResult);
+    } else {
+      // The music plays on through the ticks
+      this.clearGrid(!rain);
+    }
 
-    for (let i = 0; i < seqResult.sequence.length; i++) {
-      this.throwIfCancelled(token);
-      const seqPiece = seqResult.sequence[i];
-      await this.animatePieceDrop(seqPiece, token);
-      await this.delay(this.PIECE_DELAY, token);
+    if (rain) {
+      // A tick must land within the second
+      await this.rainPieces(seqResult.sequence, token);
+    } else {
+      for (let i = 0; i < seqResult.sequence.length; i++) {
+        this.throwIfCancelled(token);
+        const seqPiece = seqResult.sequence[i];
+        await this.animatePieceDrop(seqPiece, token);
+        await this.delay(this.PIECE_DELAY, token);
+      }
     }
 
     this.throwIfCancelled(token);
 
-    // Show the colon after all pieces have dropped
-    this.showColon();
+    if (rain || this.keepsTimeOnScreen()) {
+      // Keep the time on screen: the next update replaces only the digits that change
+      this.displayedTile = tileResult;
+      return;
+    }
 
     // Classic Tetris clear animation after time is fully displayed
     await this.clearRowsAnimation(token);
@@ -697,9 +1096,9 @@ class TetrisClock {
     this.throwIfCancelled(token);
     const piece = seqPiece.piece;
     // Digit pieces get colorful tetromino colors, background pieces get uniform dark blue
-    const color = piece.isLit ? DIGIT_COLORS[piece.type] : BACKGROUND_COLOR;
+    const color = pieceColor(piece);
 
-    const tetromino = TETROMINOES[piece.type];
+    const tetromino = TETROMINO_SET.pieces[piece.type];
     let activeKeys = new Set<string>();
 
     const rotationCount = tetromino.rotations.length;
@@ -725,8 +1124,8 @@ class TetrisClock {
         const visualRow = cell.row + FIELD_TOP_PADDING_ROWS;
         const visualCol = cell.col;
 
-        if (visualRow < 0 || visualRow >= FIELD_ROWS) continue;
-        if (visualCol < 0 || visualCol >= FIELD_COLS) continue;
+        if (visualRow < 0 || visualRow >= this.fieldRows) continue;
+        if (visualCol < 0 || visualCol >= this.fieldCols) continue;
 
         nextKeys.add(cellKey(visualRow, visualCol));
       }
@@ -740,9 +1139,9 @@ class TetrisClock {
         }
       }
 
-      // Paint only newly occupied cells
+      // Paint only newly occupied cells; pieces fall behind locked cells
       for (const key of nextKeys) {
-        if (activeKeys.has(key)) continue;
+        if (activeKeys.has(key) || this.lockedCells.has(key)) continue;
         const parsed = parseCellKey(key);
         if (parsed) {
           this.setCellOccupied(parsed.row, parsed.col, piece.type, color);
@@ -847,6 +1246,55 @@ class TetrisClock {
     activeKeys = new Set();
   }
 
+  /**
+   * Drop pieces straight down from the top of the field in sequence order, each
+   * starting a little after the one before, so that all of them land within
+   * `durationMs` (by default TICK_ANIMATION_MS, for seconds mode). Pieces pass behind locked cells.
+   */
+  private async rainPieces(sequence: SequencedPiece[], token: number, durationMs = TICK_ANIMATION_MS): Promise<void> {
+    const rowMs = RAIN_FALL_MS / this.fieldRows;
+    const stagger =
+      sequence.length > 1 ? Math.min(RAIN_STAGGER_MS, (durationMs - RAIN_FALL_MS) / (sequence.length - 1)) : 0;
+    const falling = sequence.map(({ piece }, i) => ({ piece, startAt: i * stagger, landed: false }));
+
+    const startTime = performance.now();
+    let activeKeys = new Set<string>();
+    while (falling.some((f) => !f.landed)) {
+      const now = await this.nextFrame(token);
+      const nextCells = new Map<string, PlacedTetromino>();
+
+      for (const f of falling) {
+        const elapsed = now - startTime - f.startAt;
+        if (f.landed || elapsed < 0) continue;
+        // Rows still to fall, starting with the anchor at the top of the field
+        const fallRows = f.piece.anchor.row + FIELD_TOP_PADDING_ROWS;
+        const rowsLeft = Math.max(0, fallRows - Math.floor(elapsed / rowMs));
+        for (const cell of f.piece.cells) {
+          const row = cell.row + FIELD_TOP_PADDING_ROWS - rowsLeft;
+          if (rowsLeft === 0) {
+            this.setCellOccupied(row, cell.col, f.piece.type, pieceColor(f.piece));
+            this.lockedCells.add(cellKey(row, cell.col));
+          } else if (row >= 0) {
+            nextCells.set(cellKey(row, cell.col), f.piece);
+          }
+        }
+        f.landed = rowsLeft === 0;
+      }
+
+      for (const key of activeKeys) {
+        const parsed = parseCellKey(key);
+        if (parsed && !nextCells.has(key)) this.setCellEmptyIfUnlocked(parsed.row, parsed.col);
+      }
+      for (const [key, piece] of nextCells) {
+        const parsed = parseCellKey(key);
+        if (parsed && !this.lockedCells.has(key)) {
+          this.setCellOccupied(parsed.row, parsed.col, piece.type, pieceColor(piece));
+        }
+      }
+      activeKeys = new Set(nextCells.keys());
+    }
+  }
+
   /**
    * Frame-synced delay using requestAnimationFrame.
    * This ensures all visual updates happen at frame boundaries,
@@ -893,8 +1341,8 @@ class TetrisClock {
 
     // Cache filled cells with their colors to avoid repeated DOM queries
     const filledCells: Array<{ cell: HTMLElement; color: string; row: number }> = [];
-    for (let row = 0; row < FIELD_ROWS; row++) {
-      for (let col = 0; col < FIELD_COLS; col++) {
+    for (let row = 0; row < this.fieldRows; row++) {
+      for (let col = 0; col < this.fieldCols; col++) {
         const cell = this.getCell(row, col);
         if (cell && !cell.classList.contains("empty")) {
           filledCells.push({ cell, color: cell.style.backgroundColor, row });
@@ -941,6 +1389,60 @@ class TetrisClock {
 
     this.lockedCells.clear();
   }
+
+  /**
+   * The end of a countdown: the pieces rain down and the rows clear in fireworks
+   * CELEBRATION_BURSTS times, then the pieces rain down once more and the
+   * message (or 00:00) stays on screen.
+   */
+  private async celebrate(tileResult: TileResult, seqResult: SequenceResult, token: number): Promise<void> {
+    if (!tileResult.success) {
+      throw new Error(tileResult.error ?? "Tiling failed");
+    }
+    if (!seqResult.success) {
+      throw new Error("No drop order found for the tiling");
+    }
+
+    for (let burst = 0; burst <= CELEBRATION_BURSTS; burst++) {
+      this.throwIfCancelled(token);
+      // Restart the music once, as the celebration starts
+      this.clearGrid(burst === 0);
+      await this.rainPieces(seqResult.sequence, token, CELEBRATION_RAIN_MS);
+      if (burst < CELEBRATION_BURSTS) {
+        await this.fireworksAnimation(token);
+      }
+    }
+  }
+
+  /** Clear the rows from the bottom up, each one bursting through the piece colors before it goes out */
+  private async fireworksAnimation(token: number): Promise<void> {
+    const colors = [...new Set([...Object.values(DIGIT_COLORS), ...REGION_COLORS])];
+
+    for (let row = this.fieldRows - 1; row >= 0; row--) {
+      const cells: HTMLElement[] = [];
+      for (let col = 0; col < this.fieldCols; col++) {
+        const cell = this.getCell(row, col);
+        if (cell && !cell.classList.contains("empty")) cells.push(cell);
+      }
+      if (cells.length === 0) continue;
+
+      for (let flash = 0; flash < FIREWORK_FLASHES; flash++) {
+        this.throwIfCancelled(token);
+        for (const cell of cells) {
+          cell.style.backgroundColor = colors[Math.floor(Math.random() * colors.length)];
+        }
+        await this.delay(FLASH_DURATION, token);
+      }
+
+      for (const cell of cells) {
+        cell.className = "cell empty";
+        cell.style.cssText = "";
+      }
+      await this.delay(ROW_CLEAR_DELAY, token);
+    }
+
+    this.lockedCells.clear();
+  }
 }
 
 // Initialize the clock when DOM is ready
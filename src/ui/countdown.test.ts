@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { getModeFromUrl, getTargetDateFromUrl, getCountdownTime } from "./countdown";
+import {
+  getModeFromUrl,
+  getTargetDateFromUrl,
+  getCountdownTime,
+  isFinalMinute,
+  countdownDisplay,
+  getMessageFromUrl,
+} from "./countdown";
 
 describe("getModeFromUrl", () => {
   let originalLocation: Location;
@@ -27,6 +34,11 @@ describe("getModeFromUrl", () => {
     expect(getModeFromUrl()).toBe("countdown");
   });
 
+  it("returns 'date' when mode=date", () => {
+    vi.stubGlobal("location", { search: "?mode=date" });
+    expect(getModeFromUrl()).toBe("date");
+  });
+
   it("returns 'clock' for invalid mode values", () => {
     vi.stubGlobal("location", { search: "?mode=invalid" });
     expect(getModeFromUrl()).toBe("clock");
@@ -137,7 +149,7 @@ describe("getCountdownTime", () => {
 
     const result = getCountdownTime(target, now);
 
-    expect(result).toEqual({ hours: 0, minutes: 0, finished: true });
+    expect(result).toEqual({ days: 0, hours: 0, minutes: 0, seconds: 0, finished: true });
   });
 
   it("returns 0:0 when exactly at target time", () => {
@@ -146,19 +158,24 @@ describe("getCountdownTime", () => {
 
     const result = getCountdownTime(target, now);
 
-    expect(result).toEqual({ hours: 0, minutes: 0, finished: true });
+    expect(result).toEqual({ days: 0, hours: 0, minutes: 0, seconds: 0, finished: true });
   });
 
-  it("caps at 99:59 for countdowns longer than 100 hours", () => {
+  it("counts days for countdowns longer than 99:59", () => {
     const now = new Date("2025-01-01T00:00:00");
-    // 200 hours in the future
-    const target = new Date(now.getTime() + 200 * 60 * 60 * 1000);
+    // 200 hours and 15 minutes in the future
+    const target = new Date(now.getTime() + (200 * 60 + 15) * 60 * 1000);
 
     const result = getCountdownTime(target, now);
 
-    expect(result?.hours).toBe(99);
-    expect(result?.minutes).toBe(59);
-    expect(result?.finished).toBe(false);
+    expect(result).toEqual({ days: 8, hours: 8, minutes: 15, seconds: 0, finished: false });
+  });
+
+  it("keeps counting hours up to 99:59", () => {
+    const now = new Date("2025-01-01T00:00:00");
+    const target = new Date(now.getTime() + (99 * 60 + 59) * 60 * 1000);
+
+    expect(getCountdownTime(target, now)).toEqual({ days: 0, hours: 99, minutes: 59, seconds: 0, finished: false });
   });
 
   it("displays hours beyond 24 correctly", () => {
@@ -201,9 +218,82 @@ describe("getCountdownTime", () => {
 
     const result = getCountdownTime(target, now);
 
-    // Less than a minute shows 0:00
+    // Less than a minute shows 0:00 and counts the seconds
     expect(result?.hours).toBe(0);
     expect(result?.minutes).toBe(0);
+    expect(result?.seconds).toBe(30);
     expect(result?.finished).toBe(false); // Not finished yet, just < 1 minute
   });
+
+  it("rounds down seconds in the final minute", () => {
+    const now = new Date("2025-01-01T10:00:00");
+    const target = new Date(now.getTime() + 59_999);
+
+    expect(getCountdownTime(target, now).seconds).toBe(59);
+    expect(getCountdownTime(target, new Date(target.getTime() - 1)).seconds).toBe(0);
+  });
+});
+
+describe("isFinalMinute", () => {
+  it("returns true for less than a minute remaining", () => {
+    expect(isFinalMinute({ days: 0, hours: 0, minutes: 0, seconds: 0, finished: false })).toBe(true);
+    expect(isFinalMinute({ days: 0, hours: 0, minutes: 0, seconds: 59, finished: false })).toBe(true);
+  });
+
+  it("returns false before the final minute and once finished", () => {
+    expect(isFinalMinute({ days: 0, hours: 0, minutes: 1, seconds: 0, finished: false })).toBe(false);
+    expect(isFinalMinute({ days: 1, hours: 0, minutes: 0, seconds: 0, finished: false })).toBe(false);
+    expect(isFinalMinute({ days: 0, hours: 0, minutes: 0, seconds: 0, finished: true })).toBe(false);
+  });
+});
+
+describe("countdownDisplay", () => {
+  it("shows HH:MM without days", () => {
+    expect(countdownDisplay({ days: 0, hours: 42, minutes: 7, seconds: 0, finished: false })).toEqual({ hours: 42, minutes: 7 });
+  });
+
+  it("shows days and hours with their units up to 99 days", () => {
+    expect(countdownDisplay({ days: 75, hours: 4, minutes: 30, seconds: 0, finished: false })).toEqual({
+      text: "75D 04H",
+    });
+  });
+
+  it("tells 4 days 5 hours apart from 4 hours 5 minutes", () => {
+    const days = countdownDisplay({ days: 4, hours: 5, minutes: 0, seconds: 0, finished: false });
+    const hours = countdownDisplay({ days: 0, hours: 4, minutes: 5, seconds: 0, finished: false });
+
+    expect(days).toEqual({ text: "4D 05H" });
+    expect(hours).toEqual({ hours: 4, minutes: 5 });
+  });
+
+  it("shows the days as text beyond 99 days", () => {
+    expect(countdownDisplay({ days: 123, hours: 4, minutes: 30, seconds: 0, finished: false })).toEqual({
+      text: "123 DAYS",
+    });
+  });
+
+  it("shows the seconds as SS in the final minute", () => {
+    expect(countdownDisplay({ days: 0, hours: 0, minutes: 0, seconds: 7, finished: false })).toEqual({ text: "07" });
+  });
+});
+
+describe("getMessageFromUrl", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns null when no message parameter is present", () => {
+    vi.stubGlobal("location", { search: "?mode=countdown" });
+    expect(getMessageFromUrl()).toBeNull();
+  });
+
+  it("returns the message in upper case", () => {
+    vi.stubGlobal("location", { search: "?message=%20Happy%20New%20Year!%20" });
+    expect(getMessageFromUrl()).toBe("HAPPY NEW YEAR!");
+  });
+
+  it("returns null for a blank message", () => {
+    vi.stubGlobal("location", { search: "?message=%20%20" });
+    expect(getMessageFromUrl()).toBeNull();
+  });
 });
@@ -1,20 +1,25 @@
-export type ClockMode = "clock" | "countdown";
+export type ClockMode = "clock" | "countdown" | "date";
 
 export interface CountdownTime {
+  /** Whole days left once the countdown is longer than 99:59, else 0 */
+  days: number;
+  /** Hours left (up to 99), or the hours beyond the whole days (0-23) */
   hours: number;
   minutes: number;
+  /** Seconds left in the final minute (0-59), else 0 */
+  seconds: number;
   finished: boolean;
 }
 
 /**
  * Parse the mode parameter from URL.
- * Returns 'clock' (default) or 'countdown'.
+ * Returns 'clock' (default), 'countdown' or 'date'.
  */
 export function getModeFromUrl(): ClockMode {
   const params = new URLSearchParams(window.location.search);
-  const modeParam = params.get("mode");
-  if (modeParam?.toLowerCase() === "countdown") {
-    return "countdown";
+  const modeParam = params.get("mode")?.toLowerCase();
+  if (modeParam === "countdown" || modeParam === "date") {
+    return modeParam;
   }
   return "clock";
 }
@@ -74,7 +79,7 @@ export function getTargetDateFromUrl(now: Date = new Date()): Date | null {
  * Calculate the countdown time remaining until target.
  * @param target - The target date/time to count down to
  * @param now - The current date/time (optional, defaults to new Date())
- * @returns Object with hours, minutes, and finished flag
+ * @returns Object with days, hours, minutes, seconds (final minute only), and finished flag
  */
 export function getCountdownTime(
   target: Date,
@@ -84,25 +89,60 @@ export function getCountdownTime(
 
   // If countdown finished (target in past or exactly now)
   if (diffMs <= 0) {
-    return { hours: 0, minutes: 0, finished: true };
+    return { days: 0, hours: 0, minutes: 0, seconds: 0, finished: true };
   }
 
   // Convert to total minutes (floor to current minute)
   const totalMinutes = Math.floor(diffMs / (1000 * 60));
 
-  // Less than 1 minute remaining
+  // Less than 1 minute remaining: count the seconds (floored like the minutes)
   if (totalMinutes === 0) {
-    return { hours: 0, minutes: 0, finished: false };
+    return { days: 0, hours: 0, minutes: 0, seconds: Math.floor(diffMs / 1000), finished: false };
   }
 
-  let hours = Math.floor(totalMinutes / 60);
-  let minutes = totalMinutes % 60;
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
 
-  // Cap at 99:59 (max displayable with HH:MM format)
+  // Beyond 99:59 (max displayable with HH:MM format), count whole days
   if (hours > 99) {
-    hours = 99;
-    minutes = 59;
+    return { days: Math.floor(hours / 24), hours: hours % 24, minutes, seconds: 0, finished: false };
   }
 
-  return { hours, minutes, finished: false };
+  return { days: 0, hours, minutes, seconds: 0, finished: false };
+}
+
+/** Whether the countdown is in its final minute, which is shown in seconds */
+export function isFinalMinute(countdown: CountdownTime): boolean {
+  return !countdown.finished && countdown.days === 0 && countdown.hours === 0 && countdown.minutes === 0;
+}
+
+/**
+ * What a countdown shows: HH:MM up to 99:59, then days and hours with their
+ * units as text (e.g. "4D 05H", never mistaken for 4:05) up to 99 days, then
+ * the days. The final minute shows just the seconds, as SS.
+ * @param countdown - The time remaining
+ * @returns Hours and minutes for the time grid, or a text such as "4D 05H", "123 DAYS" or "42"
+ */
+export function countdownDisplay(countdown: CountdownTime): { hours: number; minutes: number } | { text: string } {
+  if (isFinalMinute(countdown)) {
+    return { text: String(countdown.seconds).padStart(2, "0") };
+  }
+  if (countdown.days === 0) {
+    return { hours: countdown.hours, minutes: countdown.minutes };
+  }
+  if (countdown.days <= 99) {
+    return { text: `${countdown.days}D ${String(countdown.hours).padStart(2, "0")}H` };
+  }
+  return { text: `${countdown.days} DAYS` };
+}
+
+/**
+ * Parse the celebration message from the URL 'message' parameter, shown when
+ * a countdown reaches its target (e.g. ?message=HAPPY NEW YEAR).
+ * Returns the message in upper case, or null if not present or blank.
+ */
+export function getMessageFromUrl(): string | null {
+  const params = new URLSearchParams(window.location.search);
+  const message = params.get("message")?.trim();
+  return message ? message.toUpperCase() : null;
 }
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { isMonthFirst, formatDateText, getDateCycleFromUrl, showsDateAt } from "./date";
+
+describe("isMonthFirst", () => {
+  it("returns true for month-first locales", () => {
+    expect(isMonthFirst("en-US")).toBe(true);
+  });
+
+  it("returns false for day-first locales", () => {
+    expect(isMonthFirst("en-GB")).toBe(false);
+    expect(isMonthFirst("nl-NL")).toBe(false);
+  });
+});
+
+describe("formatDateText", () => {
+  const date = new Date(2026, 9, 5); // Monday 5 October 2026
+
+  it("formats day-first locales as DD-MM", () => {
+    expect(formatDateText(date, "numeric", "en-GB")).toBe("05-10");
+  });
+
+  it("formats month-first locales as MM/DD", () => {
+    expect(formatDateText(date, "numeric", "en-US")).toBe("10/05");
+  });
+
+  it("formats the weekday as three letters", () => {
+    expect(formatDateText(date, "weekday")).toBe("MON");
+    expect(formatDateText(new Date(2026, 9, 11), "weekday")).toBe("SUN");
+  });
+});
+
+describe("getDateCycleFromUrl", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns null when no cycle parameter is present", () => {
+    vi.stubGlobal("location", { search: "?mode=date" });
+    expect(getDateCycleFromUrl()).toBeNull();
+  });
+
+  it("returns the cycle in seconds", () => {
+    vi.stubGlobal("location", { search: "?mode=date&cycle=30" });
+    expect(getDateCycleFromUrl()).toBe(30);
+  });
+
+  it("returns null for invalid cycles", () => {
+    for (const cycle of ["0", "-5", "1.5", "abc", ""]) {
+      vi.stubGlobal("location", { search: `?cycle=${cycle}` });
+      expect(getDateCycleFromUrl(), cycle).toBeNull();
+    }
+  });
+});
+
+describe("showsDateAt", () => {
+  it("always shows the date without a cycle", () => {
+    expect(showsDateAt(new Date(0), null)).toBe(true);
+    expect(showsDateAt(new Date(45_000), null)).toBe(true);
+  });
+
+  it("alternates between the date and the time every cycle", () => {
+    expect(showsDateAt(new Date(0), 30)).toBe(true);
+    expect(showsDateAt(new Date(29_999), 30)).toBe(true);
+    expect(showsDateAt(new Date(30_000), 30)).toBe(false);
+    expect(showsDateAt(new Date(60_000), 30)).toBe(true);
+  });
+});
@@ -0,0 +1,56 @@
+export type DateStyle = "numeric" | "weekday";
+
+/** Weekday names as the glyphs spell them (index = Date.getDay()) */
+const WEEKDAYS = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+/**
+ * Whether a locale writes the month before the day (en-US: 10/19)
+ * or the day first (en-GB, de, nl: 19-10).
+ */
+export function isMonthFirst(locale?: string): boolean {
+  const parts = new Intl.DateTimeFormat(locale, { day: "numeric", month: "numeric" }).formatToParts(
+    new Date(2000, 0, 2)
+  );
+  const order = parts.map((part) => part.type);
+  return order.indexOf("month") < order.indexOf("day");
+}
+
+/**
+ * The text to show for a date: DD-MM or MM/DD depending on the locale,
+ * or the three-letter weekday.
+ * @param date - The date to show
+ * @param style - "numeric" (default) or "weekday"
+ * @param locale - Locale that decides the order of day and month (default: the browser's)
+ */
+export function formatDateText(date: Date, style: DateStyle = "numeric", locale?: string): string {
+  if (style === "weekday") {
+    return WEEKDAYS[date.getDay()];
+  }
+  const dd = String(date.getDate()).padStart(2, "0");
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  return isMonthFirst(locale) ? `${mm}/${dd}` : `${dd}-${mm}`;
+}
+
+/**
+ * Parse the date/time cycle from the URL 'cycle' parameter: the number of
+ * seconds the date and the time each stay on screen in date mode.
+ * Returns null (date only) if not present or not a positive integer.
+ */
+export function getDateCycleFromUrl(): number | null {
+  const params = new URLSearchParams(window.location.search);
+  const cycleParam = params.get("cycle");
+  if (cycleParam === null || !/^\d+$/.test(cycleParam.trim())) {
+    return null;
+  }
+  const seconds = Number(cycleParam.trim());
+  return seconds > 0 ? seconds : null;
+}
+
+/**
+ * Whether date mode shows the date (true) or the time at `now`:
+ * with a cycle, the two take turns every `cycleSeconds`, starting with the date.
+ */
+export function showsDateAt(now: Date, cycleSeconds: number | null): boolean {
+  if (cycleSeconds === null) return true;
+  return Math.floor(now.getTime() / (cycleSeconds * 1000)) % 2 === 0;
+}
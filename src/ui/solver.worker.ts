@@ -0,0 +1,4 @@
+import { attachSolverWorker, type SolverPort } from "../core";
+
+// Worker entry: tiles and sequences times for TetrisClock off the main thread
+attachSolverWorker(self as unknown as SolverPort);
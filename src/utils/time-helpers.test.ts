@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { formatHHMM, floorToMinute } from "./time-helpers";
+import { formatHHMM, formatHHMMSS, to12Hour, floorToMinute } from "./time-helpers";
 
 describe("formatHHMM", () => {
   it("should format single digit hours and minutes with leading zeros", () => {
@@ -31,6 +31,25 @@ describe("formatHHMM", () => {
   });
 });
 
+describe("formatHHMMSS", () => {
+  it("should format all three parts with leading zeros", () => {
+    expect(formatHHMMSS(9, 5, 7)).toBe("09:05:07");
+    expect(formatHHMMSS(23, 59, 59)).toBe("23:59:59");
+  });
+});
+
+describe("to12Hour", () => {
+  it("should map midnight and noon to 12", () => {
+    expect(to12Hour(0)).toEqual({ hours: 12, meridiem: "AM" });
+    expect(to12Hour(12)).toEqual({ hours: 12, meridiem: "PM" });
+  });
+
+  it("should map morning and afternoon hours to 1-11", () => {
+    expect(to12Hour(9)).toEqual({ hours: 9, meridiem: "AM" });
+    expect(to12Hour(23)).toEqual({ hours: 11, meridiem: "PM" });
+  });
+});
+
 describe("floorToMinute", () => {
   it("should floor date to minute by removing seconds and milliseconds", () => {
     const date = new Date("2025-12-30T14:35:47.123Z");
@@ -15,6 +15,28 @@ export function formatHHMM(hours: number, minutes: number): string {
   return `${hh}:${mm}`;
 }
 
+/**
+ * Formats hours, minutes and seconds as HH:MM:SS string.
+ *
+ * @param hours - Hour value (0-23)
+ * @param minutes - Minute value (0-59)
+ * @param seconds - Second value (0-59)
+ * @returns Formatted time string (e.g., "09:45:07")
+ */
+export function formatHHMMSS(hours: number, minutes: number, seconds: number): string {
+  return `${formatHHMM(hours, minutes)}:${String(seconds).padStart(2, "0")}`;
+}
+
+/**
+ * Converts a 24-hour clock hour to 12-hour time.
+ *
+ * @param hours - Hour value (0-23)
+ * @returns Hour value (1-12) and whether it is before or after noon (e.g., 0 → 12 AM, 13 → 1 PM)
+ */
+export function to12Hour(hours: number): { hours: number; meridiem: "AM" | "PM" } {
+  return { hours: hours % 12 || 12, meridiem: hours < 12 ? "AM" : "PM" };
+}
+
 /**
  * Floors a date to the nearest minute by setting seconds and milliseconds to 0.
  *
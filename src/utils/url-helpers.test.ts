@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { parseSpeedParam } from "./url-helpers";
+import { parseSpeedParam, parseFlagParam, parseChoiceParam } from "./url-helpers";
 
 describe("parseSpeedParam", () => {
   it("should return default speed when no speed param is present", () => {
@@ -62,3 +62,42 @@ describe("parseSpeedParam", () => {
     expect(parseSpeedParam(params)).toBe(10);
   });
 });
+
+describe("parseFlagParam", () => {
+  it("should be false when the parameter is missing", () => {
+    expect(parseFlagParam(new URLSearchParams(""), "incremental")).toBe(false);
+  });
+
+  it("should accept common truthy values", () => {
+    for (const query of ["incremental", "incremental=1", "incremental=true", "incremental=YES", "incremental=on"]) {
+      expect(parseFlagParam(new URLSearchParams(query), "incremental"), query).toBe(true);
+    }
+  });
+
+  it("should reject other values", () => {
+    for (const query of ["incremental=0", "incremental=false", "incremental=off", "incremental=2"]) {
+      expect(parseFlagParam(new URLSearchParams(query), "incremental"), query).toBe(false);
+    }
+  });
+});
+
+describe("parseChoiceParam", () => {
+  const fonts = ["block", "seven-segment", "rounded"] as const;
+
+  it("should return the default when the parameter is missing", () => {
+    expect(parseChoiceParam(new URLSearchParams(""), "font", fonts, "block")).toBe("block");
+  });
+
+  it("should return a matching choice, ignoring case and whitespace", () => {
+    expect(parseChoiceParam(new URLSearchParams("font=rounded"), "font", fonts, "block")).toBe("rounded");
+    expect(parseChoiceParam(new URLSearchParams("font=%20Seven-Segment"), "font", fonts, "block")).toBe(
+      "seven-segment"
+    );
+  });
+
+  it("should return the default for unknown values", () => {
+    for (const query of ["font=", "font=comic", "font"]) {
+      expect(parseChoiceParam(new URLSearchParams(query), "font", fonts, "block"), query).toBe("block");
+    }
+  });
+});
@@ -25,3 +25,37 @@ export function parseSpeedParam(
   }
   return defaultSpeed;
 }
+
+/**
+ * Parses an on/off URL parameter such as `incremental=1`.
+ * "1", "true", "yes" and "on" (any case) enable it, as does the bare `?incremental`.
+ *
+ * @param params - URLSearchParams object to parse
+ * @param name - Parameter name
+ * @returns Whether the flag is set
+ */
+export function parseFlagParam(params: URLSearchParams, name: string): boolean {
+  const value = params.get(name);
+  if (value === null) return false;
+  return ["", "1", "true", "yes", "on"].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Parses a URL parameter that takes one of a fixed set of values, such as `font=rounded`.
+ * Matching ignores case and surrounding whitespace; anything else gives the default.
+ *
+ * @param params - URLSearchParams object to parse
+ * @param name - Parameter name
+ * @param choices - Accepted values (lower case)
+ * @param defaultValue - Value when the parameter is missing or not a choice
+ * @returns The chosen value
+ */
+export function parseChoiceParam<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  choices: readonly T[],
+  defaultValue: T
+): T {
+  const value = params.get(name)?.trim().toLowerCase();
+  return choices.find((choice) => choice === value) ?? defaultValue;
+}